@@ -0,0 +1,166 @@
+/*!
+ * IMQ hook overhead micro-benchmark
+ *
+ * Copyright (c) 2026, imqueue.com <support@imqueue.com>
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted, provided that the above
+ * copyright notice and this permission notice appear in all copies.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES WITH
+ * REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF MERCHANTABILITY
+ * AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY SPECIAL, DIRECT,
+ * INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES WHATSOEVER RESULTING FROM
+ * LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION OF CONTRACT, NEGLIGENCE OR
+ * OTHER TORTIOUS ACTION, ARISING OUT OF OR IN CONNECTION WITH THE USE OR
+ * PERFORMANCE OF THIS SOFTWARE.
+ */
+// Measures what the tracing hooks add to one RPC, on each side of the call:
+// the same simulated call is timed with and without the hooks installed, and
+// the difference is reported per call.
+//
+// The tracer is the OpenTelemetry API's default no-op one, so the figures are
+// the instrumentation's own cost — context propagation, bookkeeping, attribute
+// building — not an SDK's or an exporter's. Run it on two revisions to compare
+// them:
+//
+//     npm run bench
+//
+// BENCH_CALLS (default 50000) sets the calls per round, BENCH_ROUNDS (default
+// 7) the rounds; the median round is reported.
+import {
+    ImqueueInstrumentation,
+    type ImqueueInstrumentationConfig,
+    type RpcModule,
+} from '../index.js';
+import { type IMQClient, type IMQRPCRequest } from '../src/imq/types.js';
+
+const CALLS = Number(process.env.BENCH_CALLS) || 50_000;
+const ROUNDS = Number(process.env.BENCH_ROUNDS) || 7;
+
+const client: IMQClient = { serviceName: 'BenchService' } as IMQClient;
+const service: IMQClient = { name: 'BenchService' } as IMQClient;
+
+interface Scenario {
+    name: string;
+    call: () => Promise<unknown>;
+}
+
+function makeRequest(): IMQRPCRequest {
+    return {
+        method: 'getUser',
+        from: 'bench-client',
+        args: [42, { fields: ['id', 'name', 'email'] }],
+    };
+}
+
+// One client call and one service call through the given option singletons.
+// With no hooks installed they do what `@imqueue/rpc` does without tracing:
+// serialize the request, run the handler.
+function scenarios(rpc: RpcModule): Scenario[] {
+    const {
+        DEFAULT_IMQ_CLIENT_OPTIONS: clientOptions = {},
+        DEFAULT_IMQ_SERVICE_OPTIONS: serviceOptions = {},
+    } = rpc;
+
+    return [
+        {
+            name: 'client call',
+            call: async () => {
+                const req = makeRequest();
+
+                await clientOptions.beforeCall?.call(client, req);
+                JSON.stringify(req);
+                await clientOptions.afterCall?.call(client, req, {
+                    data: { id: 42 },
+                });
+            },
+        },
+        {
+            name: 'service call',
+            call: async () => {
+                const req = makeRequest();
+                const next = async () => ({ id: 42 });
+
+                return serviceOptions.wrapCall
+                    ? serviceOptions.wrapCall.call(service, req, {}, next)
+                    : next();
+            },
+        },
+    ];
+}
+
+async function round(scenario: Scenario): Promise<number> {
+    const start = process.hrtime.bigint();
+
+    for (let i = 0; i < CALLS; i++) {
+        await scenario.call();
+    }
+
+    return Number(process.hrtime.bigint() - start) / CALLS;
+}
+
+// Alternates the variants round by round so drift — GC, CPU frequency — hits
+// both alike, and takes each one's median.
+async function measure(variants: Scenario[]): Promise<number[]> {
+    const samples: number[][] = variants.map(() => []);
+
+    for (const variant of variants) {
+        await round(variant); // warm-up
+    }
+
+    for (let i = 0; i < ROUNDS; i++) {
+        for (const [index, variant] of variants.entries()) {
+            samples[index].push(await round(variant));
+        }
+    }
+
+    return samples.map(
+        times => times.sort((a, b) => a - b)[Math.floor(times.length / 2)],
+    );
+}
+
+async function main(): Promise<void> {
+    const patched = (config?: ImqueueInstrumentationConfig) =>
+        scenarios(
+            new ImqueueInstrumentation(config).patch({
+                DEFAULT_IMQ_CLIENT_OPTIONS: {},
+                DEFAULT_IMQ_SERVICE_OPTIONS: {},
+            }),
+        );
+    const plain = scenarios({
+        DEFAULT_IMQ_CLIENT_OPTIONS: {},
+        DEFAULT_IMQ_SERVICE_OPTIONS: {},
+    });
+    const variants = [
+        { name: 'traced', scenarios: patched() },
+        // payload sizing is opt-in; this shows what turning it on costs
+        { name: '+ sizes', scenarios: patched({ payloadSize: {} }) },
+    ];
+
+    console.info(
+        `${CALLS} calls x ${ROUNDS} rounds, median round, node ${process.version}`,
+    );
+
+    for (const [index, scenario] of plain.entries()) {
+        const [base, ...times] = await measure([
+            scenario,
+            ...variants.map(variant => variant.scenarios[index]),
+        ]);
+
+        console.info(
+            `${scenario.name.padEnd(14)}` +
+                `plain ${base.toFixed(0).padStart(6)} ns/call`,
+        );
+
+        for (const [variant, time] of times.entries()) {
+            console.info(
+                `  ${variants[variant].name.padEnd(12)}` +
+                    `${time.toFixed(0).padStart(12)} ns/call  ` +
+                    `overhead ${(time - base).toFixed(0).padStart(6)} ns/call`,
+            );
+        }
+    }
+}
+
+await main();
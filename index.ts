@@ -27,8 +27,8 @@
  * through `@imqueue/rpc` produces a CLIENT span on the calling side and a SERVER
  * span on the handling side, linked into one trace. For anything the automatic
  * spans do not cover there are two manual tools: the {@link traced} method
- * decorator, and the {@link traceStart}/{@link traceEnd} pair for an arbitrary
- * block of code.
+ * decorator (or {@link tracedClass}, for every method of a class), and
+ * {@link withTrace} or {@link startTrace} for an arbitrary block of code.
  *
  * @remarks
  * Trace context travels in the IMQ request metadata, so a call chain stays a
@@ -68,17 +68,52 @@ import {
     SpanNames,
     TraceKind,
     type TracedOptions,
+    type TracedDecorator,
+    type TracedClassDecorator,
+    type TracedClassOptions,
+    type MethodPattern,
     AttributeNames,
     type TraceAttributes,
+    type TraceEndOptions,
+    type TraceHandle,
+    type TraceOptions,
+    type TraceStartOptions,
+    type OpenTrace,
+    type ExpectedErrorPredicate,
 } from './src/index.js';
+import { formatSpanName } from './src/spanName.js';
+import { matchesAny } from './src/match.js';
+import { isConsumedLater, traceConsumption } from './src/iteration.js';
+import { OpenTraceRegistry, type TrackedTrace } from './src/openTraces.js';
+import { recordError } from './src/errors.js';
 import { readFileSync } from 'node:fs';
-import { type Span, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+    type Attributes,
+    context,
+    diag,
+    type Span,
+    trace,
+    SpanKind,
+} from '@opentelemetry/api';
 import * as path from 'path';
 
 export * from './src/index.js';
-export { type IMQCallHooks } from './src/imq/types.js';
+export {
+    type IMQAfterCall,
+    type IMQBeforeCall,
+    type IMQCallHooks,
+    type IMQWrapCall,
+    type IMQClient,
+    type IMQError,
+    type IMQRPCRequest,
+    type IMQRPCResponse,
+} from './src/imq/types.js';
 
-const traces: { [name: string]: Span } = {};
+const traces: { [name: string]: TrackedTrace } = {};
+const openManualTraces = new OpenTraceRegistry();
+let defaultTraceTtl: number | undefined;
+// Marks a method already wrapped by `traced`, so `tracedClass` skips it.
+const TRACED = Symbol('traced');
 const componentName = 'imq';
 const defaultTracerName = 'basic';
 
@@ -95,13 +130,18 @@ const defaultTracerName = 'basic';
  * - A name may have only ONE span open at a time. Starting a second under a
  *   live name throws rather than silently replacing it, since replacing would
  *   leak the first span forever.
- * - A span left unclosed is never exported. Prefer {@link traced}, or a
- *   `try`/`finally` around the {@link traceEnd} call, wherever the block can
- *   throw.
+ * - A span left unclosed is never exported, and blocks its name. Prefer
+ *   {@link traced}, or a `try`/`finally` around the {@link traceEnd} call,
+ *   wherever the block can throw. {@link openTraces} lists the spans still
+ *   open, and a `ttl` ends the ones that outstay it.
+ *
+ * The span is a child of the span active when it starts, or of the one in
+ * `options.parent`, but it is not made active for the code in between. Use it
+ * to time a region, not to parent the spans that region creates.
  *
- * The span is created standalone, NOT as a child of whatever span is currently
- * active, and it is not made active for the code in between. Use it to time a
- * region, not to parent the spans that region creates.
+ * Code that may run concurrently — a service handler, anything serving parallel
+ * requests — should use {@link startTrace} or {@link withTrace} instead, which
+ * hand back the span rather than registering it under a name.
  *
  * @example
  * ```typescript
@@ -123,12 +163,14 @@ const defaultTracerName = 'basic';
  * @param tags - attributes to set on the span at creation; values must be
  *               strings
  * @param tracerName - tracer to create the span with, `'basic'` by default
+ * @param options - parent context and start time for the span
  * @throws TypeError if a span under this name is already open
  */
 export function traceStart(
     name: string,
     tags?: TraceAttributes,
     tracerName?: string,
+    options?: TraceStartOptions,
 ) {
     if (traces[name]) {
         throw new TypeError(
@@ -136,9 +178,18 @@ export function traceStart(
         );
     }
 
-    traces[name] = trace
-        .getTracer(tracerName || defaultTracerName)
-        .startSpan(name, tags ? { attributes: tags } : undefined);
+    const tracked = track(
+        name,
+        startSpan(name, tags, tracerName, options),
+        options?.ttl,
+        () => {
+            if (traces[name] === tracked) {
+                delete traces[name];
+            }
+        },
+    );
+
+    traces[name] = tracked;
 }
 
 // noinspection JSUnusedGlobalSymbols
@@ -152,13 +203,225 @@ export function traceStart(
  * started. The flip side is that a misspelled name fails silently and leaves the
  * real span open and unexported.
  *
+ * @example
+ * ```typescript
+ * try {
+ *     const count = await importRows(rows);
+ *
+ *     traceEnd('import-batch', { attributes: { 'batch.imported': count } });
+ * } catch (error) {
+ *     traceEnd('import-batch', { error });
+ *     throw error;
+ * }
+ * ```
+ *
  * @param name - the name the span was started under
+ * @param options - final attributes, outcome and end time for the span
  */
-export function traceEnd(name: string) {
-    if (traces[name]) {
-        traces[name].end();
+export function traceEnd(name: string, options?: TraceEndOptions) {
+    const tracked = traces[name];
+
+    if (tracked) {
         delete traces[name];
+
+        if (openManualTraces.take(tracked)) {
+            endSpan(tracked.span, options);
+        }
+    }
+}
+
+/**
+ * Starts a span for a block of code and returns a handle to it. Unlike
+ * {@link traceStart}, nothing is registered under the name: the span belongs to
+ * the handle, so concurrent requests may each open one under the same name.
+ *
+ * The span is a child of the active span, and {@link TraceHandle.run} makes it
+ * the active one, so spans started from that code nest under it.
+ *
+ * @example
+ * ```typescript
+ * const batch = startTrace('import-batch', {
+ *     attributes: { 'batch.size': rows.length },
+ * });
+ *
+ * try {
+ *     await batch.run(() => importRows(rows));
+ * } finally {
+ *     batch.end();
+ * }
+ * ```
+ *
+ * @param name - span name
+ * @param options - attributes, tracer, parent and start time for the span
+ * @returns the handle that ends the span
+ */
+export function startTrace(name: string, options?: TraceOptions): TraceHandle {
+    const parent = options?.parent ?? context.active();
+    const span = startSpan(name, options?.attributes, options?.tracerName, {
+        ...options,
+        parent,
+    });
+    const active = trace.setSpan(parent, span);
+    const tracked = track(name, span, options?.ttl);
+
+    return {
+        span,
+        context: active,
+        run: fn => context.with(active, fn),
+        end(endOptions) {
+            if (openManualTraces.take(tracked)) {
+                endSpan(span, endOptions);
+            }
+        },
+    };
+}
+
+/**
+ * Runs `fn` inside a new span, ending the span when `fn` returns or — if it
+ * returns a promise — when the promise settles. A throw or rejection marks the
+ * span failed and is passed on unchanged.
+ *
+ * @example
+ * ```typescript
+ * const rows = await withTrace('load-rows', span => {
+ *     span.setAttribute('table', 'orders');
+ *
+ *     return db.query('SELECT * FROM orders');
+ * });
+ * ```
+ *
+ * @param name - span name
+ * @param fn - the code to trace, given the span
+ * @param options - attributes, tracer, parent and start time for the span
+ * @returns what `fn` returns
+ */
+export function withTrace<T>(
+    name: string,
+    fn: (span: Span) => T,
+    options?: TraceOptions,
+): T {
+    const handle = startTrace(name, options);
+    // ends through the handle, so the span also leaves `openTraces()`
+    const fail = (err: unknown): never => {
+        handle.end({ error: err });
+
+        throw err;
+    };
+
+    try {
+        const result: any = handle.run(() => fn(handle.span));
+
+        if (result && typeof result.then === 'function') {
+            return result.then((res: any) => (handle.end(), res), fail);
+        }
+
+        handle.end();
+
+        return result;
+    } catch (err) {
+        return fail(err);
+    }
+}
+
+/**
+ * Lists the manual spans — from {@link traceStart} or {@link startTrace} — that
+ * have been started and not ended, with how long each has been open. A list
+ * that keeps growing, or old entries in it, point at code that forgets to end
+ * what it starts.
+ *
+ * @returns a snapshot of the open spans, oldest first
+ */
+export function openTraces(): OpenTrace[] {
+    return openManualTraces.list();
+}
+
+/**
+ * Sets the TTL for manual spans started without a `ttl` option of their own.
+ * A span still open when its TTL is up is ended with `leaked=true`, freeing its
+ * name, and a warning is logged through the OpenTelemetry diag logger.
+ *
+ * @param ttl - milliseconds a span may stay open; `undefined` to turn the
+ *              default off
+ */
+export function setTraceTtl(ttl: number | undefined): void {
+    defaultTraceTtl = ttl;
+}
+
+/**
+ * Registers a manual span as open, so {@link openTraces} lists it and its TTL,
+ * if any, can end it.
+ *
+ * @param name - the span's name
+ * @param span - the span
+ * @param ttl - the span's own TTL; the {@link setTraceTtl} default if omitted
+ * @param onLeak - called after the TTL has ended the span
+ */
+function track(
+    name: string,
+    span: Span,
+    ttl: number | undefined,
+    onLeak?: () => void,
+): TrackedTrace {
+    const tracked: TrackedTrace = { name, span, startTime: Date.now() };
+    const limit = ttl ?? defaultTraceTtl;
+
+    openManualTraces.add(tracked, limit, () => {
+        diag.warn(
+            `Trace ${name} was not ended within ${limit}ms, ending it as leaked`,
+        );
+        span.setAttribute(AttributeNames.LEAKED, true);
+        span.end();
+        onLeak?.();
+    });
+
+    return tracked;
+}
+
+/**
+ * Starts a manual span, as {@link traceStart} and {@link startTrace} do. The
+ * span options are only passed when there are some, and the parent only when
+ * one was given, leaving the tracer its own defaults otherwise.
+ */
+function startSpan(
+    name: string,
+    attributes: Attributes | undefined,
+    tracerName: string | undefined,
+    options: TraceStartOptions | undefined,
+): Span {
+    const spanOptions = {
+        ...(attributes ? { attributes } : {}),
+        ...(options?.startTime !== undefined
+            ? { startTime: options.startTime }
+            : {}),
+    };
+
+    return trace
+        .getTracer(tracerName || defaultTracerName)
+        .startSpan(
+            name,
+            Object.keys(spanOptions).length ? spanOptions : undefined,
+            options?.parent,
+        );
+}
+
+/**
+ * Ends a manual span: final attributes first, then the error and status, so the
+ * outcome is recorded on the span before it closes.
+ */
+function endSpan(span: Span, options?: TraceEndOptions): void {
+    if (options?.attributes) {
+        span.setAttributes(options.attributes);
+    }
+
+    if (options?.error !== undefined) {
+        recordError(span, options.error);
+    }
+
+    if (options?.status) {
+        span.setStatus(options.status);
     }
+
+    span.end(options?.endTime);
 }
 
 const DEFAULT_TRACED_OPTIONS: TracedOptions = {
@@ -192,11 +455,11 @@ try {
  * the span, marks it `ERROR`, ends it, and re-throws — the decorator never
  * swallows a failure.
  *
- * Every span it creates is named `method.call`; the decorated method is
- * identified by the `resource.name` attribute (`ClassName.methodName`), not by
- * the span name. The span is not made the active context, so spans created
- * *inside* the method do not nest under it — for nesting, rely on
- * {@link ImqueueInstrumentation}, which does establish context for RPC handlers.
+ * Every span it creates is named `method.call` unless a `spanNameFormatter` is
+ * given; the decorated method is identified by the `resource.name` attribute
+ * (`ClassName.methodName`) either way. The method runs with the span as the
+ * active context, so spans started inside it — directly, after an `await`, or
+ * by an IMQ call it makes — nest under it.
  *
  * @example
  * ```typescript
@@ -215,88 +478,304 @@ try {
  * }
  * ```
  *
- * @param options - span kind, extra attributes and tracer name. `kind` defaults
- *                  to {@link TraceKind.SERVER}; `tracerName` defaults to
- *                  `'basic'`. Attributes given in `tags` are applied last, so
- *                  they override the ones set automatically.
- * @returns a method decorator to apply to the methods you want traced
+ * @param options - span kind, extra attributes, tracer name and span name
+ *                  formatter. `kind` defaults to {@link TraceKind.SERVER};
+ *                  `tracerName` defaults to `'basic'`. Attributes given in
+ *                  `tags` are applied last, so they override the ones set
+ *                  automatically.
+ * @returns a method decorator to apply to the methods you want traced — it
+ *          works as a standard (TC39) decorator and, with
+ *          `experimentalDecorators` set, as a legacy one
  */
-export function traced(options?: Partial<TracedOptions>) {
-    return (
+export function traced(options?: Partial<TracedOptions>): TracedDecorator {
+    return ((
         target: any,
-        methodName: string | symbol,
-        descriptor: TypedPropertyDescriptor<(...args: any[]) => any>,
+        nameOrContext: string | symbol | ClassMethodDecoratorContext,
+        descriptor?: TypedPropertyDescriptor<(...args: any[]) => any>,
     ) => {
-        const original = descriptor.value;
         const opts: TracedOptions = Object.assign(
             {},
             DEFAULT_TRACED_OPTIONS,
             options || {},
         );
-        const tracerInstance = trace.getTracer(
-            opts.tracerName || defaultTracerName,
-        );
 
-        descriptor.value = function (...args: any[]) {
-            const className = this.constructor.name;
-            const attributes = Object.assign(
-                {
-                    [AttributeNames.SPAN_KIND]: opts.kind,
-                    [AttributeNames.RESOURCE_NAME]: `${className}.${String(
-                        methodName,
-                    )}`,
-                    // The host package name identifies the SERVICE. It used to
-                    // be written to RESOURCE_NAME instead, as a second key in
-                    // this same literal — so it silently overwrote the
-                    // ClassName.methodName above and every traced method in a
-                    // process reported the same resource.
-                    ...(pkgName
-                        ? { [AttributeNames.SERVICE_NAME]: pkgName }
-                        : {}),
-                    [AttributeNames.COMPONENT]: componentName,
-                },
-                opts.tags || {},
-            );
-            const span = tracerInstance.startSpan(SpanNames.METHOD_CALL, {
+        if (typeof nameOrContext === 'object') {
+            // Standard (TC39) decorator: `target` is the method itself, and the
+            // replacement is returned rather than written to a descriptor.
+            if (nameOrContext.kind !== 'method') {
+                throw new TypeError('traced() can only decorate methods');
+            }
+
+            return wrapTraced(target, nameOrContext.name, opts);
+        }
+
+        descriptor!.value = wrapTraced(descriptor!.value, nameOrContext, opts);
+    }) as TracedDecorator;
+}
+
+// noinspection JSUnusedGlobalSymbols
+/**
+ * Builds a class decorator that traces every method of the class, as if each
+ * were decorated with {@link traced} — for service classes where decorating
+ * method by method means some get forgotten.
+ *
+ * @remarks
+ * Only the class's OWN methods are wrapped: the prototype's, plus the static
+ * ones if `statics` is set. Getters, setters and the constructor are left
+ * alone, and so is any method already decorated with {@link traced}, whose own
+ * options win. Symbol-named methods are traced like any other.
+ *
+ * The resource name uses the class being decorated, fixed at decoration time.
+ * A subclass calling an inherited method therefore reports the class that
+ * declares it — decorate the subclass too to trace the methods it adds.
+ *
+ * Works as a standard (TC39) class decorator and, with
+ * `experimentalDecorators`, as a legacy one.
+ *
+ * @example
+ * ```typescript
+ * import { tracedClass, TraceKind } from '@imqueue/opentelemetry';
+ *
+ * @tracedClass({
+ *     exclude: ['describe', /^health/],
+ *     methods: { fetchInvoices: { kind: TraceKind.CLIENT } },
+ * })
+ * class Billing extends IMQService {
+ *     public async charge(userId: string): Promise<void> { ... }
+ *     public async fetchInvoices(userId: string): Promise<Invoice[]> { ... }
+ * }
+ * ```
+ *
+ * @param options - options for every traced method, the methods to include or
+ *                  exclude, whether to trace statics, and per-method overrides
+ * @returns a class decorator
+ */
+export function tracedClass(
+    options?: TracedClassOptions,
+): TracedClassDecorator {
+    return target => {
+        const {
+            include,
+            exclude,
+            statics,
+            methods = {},
+            ...defaults
+        } = options || {};
+        const className = target.name;
+        const holders = statics
+            ? [target.prototype, target]
+            : [target.prototype];
+
+        for (const holder of holders) {
+            for (const key of Reflect.ownKeys(holder)) {
+                const descriptor = Object.getOwnPropertyDescriptor(holder, key);
+
+                if (
+                    key === 'constructor' ||
+                    typeof descriptor?.value !== 'function' ||
+                    descriptor.value[TRACED] ||
+                    (include && !matchesMethod(include, key)) ||
+                    (exclude && matchesMethod(exclude, key))
+                ) {
+                    continue;
+                }
+
+                Object.defineProperty(holder, key, {
+                    ...descriptor,
+                    value: wrapTraced(
+                        descriptor.value,
+                        key,
+                        Object.assign(
+                            {},
+                            DEFAULT_TRACED_OPTIONS,
+                            defaults,
+                            methods[key] || {},
+                        ),
+                        className,
+                    ),
+                });
+            }
+        }
+    };
+}
+
+/** Whether a method name matches any of the patterns. */
+function matchesMethod(
+    patterns: readonly MethodPattern[],
+    key: string | symbol,
+): boolean {
+    return typeof key === 'symbol'
+        ? patterns.includes(key)
+        : matchesAny(
+              patterns.filter(pattern => typeof pattern !== 'symbol'),
+              key,
+          );
+}
+
+/**
+ * Wraps a method so each call runs in its own span — the part of
+ * {@link traced} shared by both decorator forms, and by {@link tracedClass}.
+ *
+ * @param original - the method to wrap
+ * @param methodName - its name, for the resource and span names
+ * @param opts - the complete options to trace it with
+ * @param className - class name to report; by default the class of `this` at
+ *                    call time
+ * @returns the wrapping method
+ */
+function wrapTraced(
+    original: ((...args: any[]) => any) | undefined,
+    methodName: string | symbol,
+    opts: TracedOptions,
+    className?: string,
+): (...args: any[]) => any {
+    const tracerInstance = trace.getTracer(
+        opts.tracerName || defaultTracerName,
+    );
+    const wrapped = function (this: any, ...args: any[]) {
+        const ownerName = className ?? this.constructor.name;
+        const method = String(methodName);
+        const attributes = Object.assign(
+            {
+                [AttributeNames.SPAN_KIND]: opts.kind,
+                [AttributeNames.RESOURCE_NAME]: `${ownerName}.${method}`,
+                // The host package name identifies the SERVICE. It used to
+                // be written to RESOURCE_NAME instead, as a second key in
+                // this same literal — so it silently overwrote the
+                // ClassName.methodName above and every traced method in a
+                // process reported the same resource.
+                ...(pkgName ? { [AttributeNames.SERVICE_NAME]: pkgName } : {}),
+                [AttributeNames.COMPONENT]: componentName,
+            },
+            opts.tags || {},
+        );
+        const parent = context.active();
+        const span = tracerInstance.startSpan(
+            formatSpanName(opts.spanNameFormatter, {
+                kind: opts.kind,
+                service: ownerName,
+                method,
+                defaultName: SpanNames.METHOD_CALL,
+            }),
+            {
                 attributes,
                 kind:
                     opts.kind === TraceKind.CLIENT
                         ? SpanKind.CLIENT
                         : SpanKind.SERVER,
-            });
-
-            try {
-                const result: any = original && original.apply(this, args);
+            },
+            parent,
+        );
 
-                if (result && result.then) {
-                    // noinspection CommaExpressionJS
-                    return result
-                        .then((res: any) => (span.end(), res))
-                        .catch((err: any) => handleError(span, err));
-                }
+        const active = trace.setSpan(parent, span);
+        const finish = (res: any) => {
+            setDerivedAttributes(span, opts.resultToAttributes, res);
 
+            if (!isConsumedLater(res)) {
                 span.end();
 
-                return result;
-            } catch (err) {
-                handleError(span, err);
+                return res;
             }
+
+            // A stream or iterator does its work as it is consumed: keep
+            // the span open until then.
+            return traceConsumption(res, active, (items, error) => {
+                span.setAttribute(AttributeNames.ITEM_COUNT, items);
+
+                if (error === undefined) {
+                    span.end();
+                } else {
+                    failSpan(span, error, opts.isExpectedError);
+                }
+            });
         };
+
+        setDerivedAttributes(span, opts.argsToAttributes, args);
+
+        try {
+            // Run the method INSIDE the span's context, so spans started
+            // from it — synchronously or after an `await` — nest under it.
+            const result: any =
+                original &&
+                context.with(active, () => original.apply(this, args));
+
+            if (result && result.then) {
+                return result.then(finish, (err: any) =>
+                    handleError(span, err, opts.isExpectedError),
+                );
+            }
+
+            return finish(result);
+        } catch (err) {
+            handleError(span, err, opts.isExpectedError);
+        }
     };
+
+    (wrapped as any)[TRACED] = true;
+
+    return wrapped;
 }
 
 /**
- * Records an error on a span, marks the span failed, ends it, and re-throws the
- * original error unchanged — so tracing never alters what the caller sees.
+ * Sets the attributes a `traced` extractor derives from a call's arguments or
+ * result. An extractor that throws is logged and skipped; it never fails the
+ * traced method.
+ *
+ * @param span - the span to set the attributes on
+ * @param extract - the `argsToAttributes` or `resultToAttributes` option
+ * @param value - the arguments or the result to extract from
+ */
+function setDerivedAttributes(
+    span: Span,
+    extract: ((value: any) => Attributes | undefined) | undefined,
+    value: any,
+): void {
+    if (!extract) {
+        return;
+    }
+
+    try {
+        const attributes = extract(value);
+
+        if (attributes) {
+            span.setAttributes(attributes);
+        }
+    } catch (err) {
+        diag.error('traced attribute extractor failed', err);
+    }
+}
+
+/**
+ * Records an error on a span, ends the span, and re-throws the original error
+ * unchanged — so tracing never alters what the caller sees.
  *
  * @param span - the span to fail and close
  * @param err - the error to record and re-throw
+ * @param isExpected - decides whether the error leaves the span's status alone
  * @throws the `err` it was given, always
  */
-function handleError(span: Span, err: any) {
-    span.setAttribute(AttributeNames.ERROR_MESSAGE, err);
-    span.setStatus({ code: SpanStatusCode.ERROR, message: err?.message });
-    span.end();
+function handleError(
+    span: Span,
+    err: any,
+    isExpected?: ExpectedErrorPredicate,
+): never {
+    failSpan(span, err, isExpected);
 
     throw err;
 }
+
+/**
+ * Records an error on a span and ends it.
+ *
+ * @param span - the span to fail and close
+ * @param err - the error to record
+ * @param isExpected - decides whether the error leaves the span's status alone
+ */
+function failSpan(
+    span: Span,
+    err: any,
+    isExpected?: ExpectedErrorPredicate,
+): void {
+    recordError(span, err, isExpected);
+    span.end();
+}
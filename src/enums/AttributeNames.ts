@@ -26,8 +26,8 @@
  * These are the pre-OpenTelemetry Datadog-style keys (`resource.name`,
  * `service.name`, `component`) rather than the current OpenTelemetry semantic
  * conventions, which is what lets the spans land in a Datadog-shaped backend
- * unmodified. If your backend expects semantic-convention names instead, remap
- * them in a span processor — nothing here reads these keys back.
+ * unmodified. RPC spans can carry the semantic-convention keys as well, or
+ * instead — see {@link SemconvAttributeNames}.
  */
 export enum AttributeNames {
     /**
@@ -53,6 +53,64 @@ export enum AttributeNames {
     /** Always `'imq'`, marking the span as produced by this instrumentation. */
     COMPONENT = 'component',
 
-    /** Failure detail, set alongside an `ERROR` span status. */
+    /**
+     * Failure detail, set alongside an `ERROR` span status — or without it, for
+     * an error accepted as expected.
+     */
     ERROR_MESSAGE = 'error.message',
+
+    /**
+     * The kind of error — its name, such as `TypeError`, or `_OTHER` when it
+     * has none. Set together with {@link AttributeNames.ERROR_MESSAGE}.
+     */
+    ERROR_TYPE = 'error.type',
+
+    /**
+     * The RPC arguments as JSON, redacted and truncated — only when payload
+     * capture is configured.
+     */
+    IMQ_REQUEST_ARGS = 'imq.request.args',
+
+    /**
+     * The RPC result as JSON, redacted and truncated — only when payload
+     * capture is configured.
+     */
+    IMQ_RESPONSE_DATA = 'imq.response.data',
+
+    /** Size of the serialized request, in bytes — client spans only. */
+    IMQ_REQUEST_SIZE = 'imq.request.size',
+
+    /** Size of the serialized response, in bytes. */
+    IMQ_RESPONSE_SIZE = 'imq.response.size',
+
+    /**
+     * `true` on a client span ended because no response arrived within the
+     * configured `clientSpanTimeout`.
+     */
+    IMQ_TIMEOUT = 'imq.timeout',
+
+    /**
+     * Milliseconds an inbound call waited between the client sending it and
+     * the service picking it up — time spent in the queue, plus any clock skew
+     * between the two hosts. Never negative.
+     */
+    IMQ_QUEUE_WAIT = 'imq.queue.wait_ms',
+
+    /** The `code` of an IMQ error response, such as `IMQ_RPC_CALL_ERROR`. */
+    IMQ_ERROR_CODE = 'imq.error.code',
+
+    /** The stack of an IMQ error response, truncated. */
+    IMQ_ERROR_STACK = 'imq.error.stack',
+
+    /**
+     * How many items a `traced` method's stream, async iterable or generator
+     * produced before it completed, failed or was abandoned.
+     */
+    ITEM_COUNT = 'traced.item_count',
+
+    /**
+     * `true` on a manual span that outlived its TTL and was ended for the code
+     * that started it.
+     */
+    LEAKED = 'leaked',
 }
@@ -0,0 +1,61 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+/**
+ * The metric instruments `ImqueueInstrumentation` records through its meter.
+ * Every one is labelled with `rpc.system`, `rpc.service` and `rpc.method`, and
+ * all but the queue wait and payload sizes with `imq.outcome` (`'ok'` or
+ * `'error'`) too.
+ */
+export enum MetricNames {
+    /** Histogram, in milliseconds, of outbound calls — send to response. */
+    RPC_CLIENT_DURATION = 'rpc.client.duration',
+
+    /** Histogram, in milliseconds, of inbound calls — handler run time. */
+    RPC_SERVER_DURATION = 'rpc.server.duration',
+
+    /** Counter of outbound calls completed, successfully or not. */
+    RPC_CLIENT_REQUESTS = 'rpc.client.requests',
+
+    /** Counter of inbound calls completed, successfully or not. */
+    RPC_SERVER_REQUESTS = 'rpc.server.requests',
+
+    /** Counter of outbound calls that returned an error. */
+    RPC_CLIENT_ERRORS = 'rpc.client.errors',
+
+    /** Counter of inbound calls whose handler threw or returned an error. */
+    RPC_SERVER_ERRORS = 'rpc.server.errors',
+
+    /**
+     * Histogram, in milliseconds, of how long inbound calls waited in the
+     * queue — client send to handler start.
+     */
+    RPC_SERVER_QUEUE_WAIT = 'rpc.server.queue_wait',
+
+    /** Histogram, in bytes, of serialized outbound requests — opt-in. */
+    RPC_CLIENT_REQUEST_SIZE = 'rpc.client.request.size',
+
+    /** Histogram, in bytes, of serialized responses received — opt-in. */
+    RPC_CLIENT_RESPONSE_SIZE = 'rpc.client.response.size',
+
+    /** Histogram, in bytes, of serialized responses sent — opt-in. */
+    RPC_SERVER_RESPONSE_SIZE = 'rpc.server.response.size',
+}
@@ -0,0 +1,54 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+/**
+ * OpenTelemetry semantic-convention attribute keys set on `imq.request` and
+ * `imq.response` spans, next to or instead of the legacy
+ * {@link AttributeNames} — see the `semconvStability` option of
+ * `ImqueueInstrumentation`.
+ *
+ * @remarks
+ * These are what a standard backend's RPC and messaging views key on. An IMQ
+ * call is both: an RPC to a named service method, carried over a queue named
+ * after that service.
+ */
+export enum SemconvAttributeNames {
+    /** Always `'imqueue'`. */
+    RPC_SYSTEM = 'rpc.system',
+
+    /** The IMQ service being called or handling the call. */
+    RPC_SERVICE = 'rpc.service',
+
+    /** The remote method invoked. */
+    RPC_METHOD = 'rpc.method',
+
+    /** Always `'imqueue'`. */
+    MESSAGING_SYSTEM = 'messaging.system',
+
+    /** The queue the request travels through — named after the service. */
+    MESSAGING_DESTINATION_NAME = 'messaging.destination.name',
+
+    /** `'send'` on the CLIENT span, `'process'` on the SERVER span. */
+    MESSAGING_OPERATION_TYPE = 'messaging.operation.type',
+
+    /** Which client issued the request, taken from the IMQ request's `from`. */
+    MESSAGING_CLIENT_ID = 'messaging.client.id',
+}
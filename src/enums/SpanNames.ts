@@ -28,7 +28,8 @@
  * That split is what makes the traces groupable: a backend can aggregate all
  * `imq.request` spans as "outbound RPC" and still break them down by resource.
  * It also means filtering a dashboard by span name alone will never isolate a
- * single method.
+ * single method — unless a `spanNameFormatter` such as `serviceMethodSpanName`
+ * is configured, in which case these are only the fallback names.
  */
 export enum SpanNames {
     /** A service handling an inbound RPC — the SERVER side. */
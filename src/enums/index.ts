@@ -22,3 +22,5 @@
 export * from './TraceKind.js';
 export * from './AttributeNames.js';
 export * from './SpanNames.js';
+export * from './SemconvAttributeNames.js';
+export * from './MetricNames.js';
@@ -0,0 +1,214 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import {
+    type Attributes,
+    diag,
+    type Span,
+    SpanStatusCode,
+} from '@opentelemetry/api';
+import { AttributeNames } from './enums/index.js';
+import { truncate } from './payload.js';
+import {
+    type ExpectedErrorPredicate,
+    type ImqueueErrorAttributesMapper,
+} from './types.js';
+
+// How many `cause` links to follow before giving up on a chain — deep enough
+// for any real wrapping, short enough that a cycle cannot run away.
+const MAX_CAUSE_DEPTH = 10;
+// Enough of a remote stack to find the failing frame without bloating the span.
+const MAX_STACK_BYTES = 2048;
+
+/**
+ * Records an error on a span — the single error path for `traced` methods,
+ * manual spans and both sides of an RPC.
+ *
+ * The span gets `error.type` and a readable `error.message`, and an exception
+ * event whose stack trace continues down the `cause` chain. Its status is set
+ * to `ERROR` unless `isExpected` accepts the error as an expected business
+ * outcome; a predicate that throws is logged and counts as "not expected".
+ *
+ * @param span - the span to record the error on
+ * @param error - what was thrown or returned as the error; any value
+ * @param isExpected - decides whether the error is an expected outcome
+ * @returns `true` if the error counts as a failure, `false` if it was expected
+ */
+export function recordError(
+    span: Span,
+    error: unknown,
+    isExpected?: ExpectedErrorPredicate,
+): boolean {
+    const type = errorType(error);
+    const message = errorMessage(error);
+
+    span.setAttributes({
+        [AttributeNames.ERROR_TYPE]: type,
+        [AttributeNames.ERROR_MESSAGE]: message,
+    });
+    span.recordException({ name: type, message, stack: errorStack(error) });
+
+    if (expected(isExpected, error)) {
+        return false;
+    }
+
+    span.setStatus({ code: SpanStatusCode.ERROR, message });
+
+    return true;
+}
+
+/**
+ * The attributes an IMQ error response adds to a span: its `code` and its
+ * stack, truncated, plus whatever the configured mapper derives from the code.
+ * A mapper that throws is logged and skipped.
+ *
+ * @param error - the `error` of the IMQ response
+ * @param mapper - the `errorAttributes` option
+ * @returns the attributes to set
+ */
+export function imqErrorAttributes(
+    error: any,
+    mapper?: ImqueueErrorAttributesMapper,
+): Attributes {
+    const code = errorCode(error);
+    const attributes: Attributes = {};
+
+    if (code !== undefined) {
+        attributes[AttributeNames.IMQ_ERROR_CODE] = code;
+    }
+
+    if (typeof error?.stack === 'string') {
+        attributes[AttributeNames.IMQ_ERROR_STACK] = truncate(
+            error.stack,
+            MAX_STACK_BYTES,
+        );
+    }
+
+    if (mapper) {
+        try {
+            Object.assign(attributes, mapper(code, error));
+        } catch (err) {
+            diag.error('errorAttributes failed', err);
+        }
+    }
+
+    return attributes;
+}
+
+/**
+ * A readable message for any error value: the message of an `Error` or
+ * error-like object, a string as it is, anything else as JSON — never
+ * `[object Object]`.
+ */
+export function errorMessage(error: any): string {
+    if (typeof error === 'string') {
+        return error;
+    }
+
+    if (typeof error?.message === 'string') {
+        return error.message;
+    }
+
+    try {
+        return JSON.stringify(error) ?? String(error);
+    } catch {
+        return String(error);
+    }
+}
+
+/**
+ * A low-cardinality name for the kind of error: its `name` (`TypeError`, a
+ * custom class's), else its code — all an IMQ error response carries — else its
+ * class name, else `_OTHER` as the OpenTelemetry conventions prescribe.
+ */
+function errorType(error: any): string {
+    if (typeof error?.name === 'string' && error.name) {
+        return error.name;
+    }
+
+    const code = errorCode(error);
+
+    if (code) {
+        return code;
+    }
+
+    const className = error?.constructor?.name;
+
+    return typeof className === 'string' && className && className !== 'Object'
+        ? className
+        : '_OTHER';
+}
+
+/**
+ * The error's stack followed by each `cause`'s, Java-style. A link with no
+ * stack contributes its type and message instead.
+ */
+function errorStack(error: any): string | undefined {
+    const parts: string[] = [];
+    const seen = new Set<unknown>();
+    let current = error;
+
+    while (
+        current !== undefined &&
+        current !== null &&
+        !seen.has(current) &&
+        parts.length <= MAX_CAUSE_DEPTH
+    ) {
+        seen.add(current);
+        parts.push(
+            typeof current?.stack === 'string'
+                ? current.stack
+                : `${errorType(current)}: ${errorMessage(current)}`,
+        );
+        current = typeof current === 'object' ? current.cause : undefined;
+    }
+
+    if (typeof error?.stack !== 'string' && parts.length === 1) {
+        return undefined;
+    }
+
+    return parts.join('\nCaused by: ');
+}
+
+function errorCode(error: any): string | undefined {
+    const code = error?.code;
+
+    return typeof code === 'string' || typeof code === 'number'
+        ? String(code)
+        : undefined;
+}
+
+function expected(
+    isExpected: ExpectedErrorPredicate | undefined,
+    error: unknown,
+): boolean {
+    if (!isExpected) {
+        return false;
+    }
+
+    try {
+        return !!isExpected(error);
+    } catch (err) {
+        diag.error('isExpectedError failed', err);
+
+        return false;
+    }
+}
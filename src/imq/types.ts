@@ -13,7 +13,6 @@
  * OTHER TORTIOUS ACTION, ARISING OUT OF OR IN CONNECTION WITH THE USE OR
  * PERFORMANCE OF THIS SOFTWARE.
  */
-import { type Span } from '@opentelemetry/api';
 
 /**
  * The parts of an `@imqueue/rpc` client or service this instrumentation reads
@@ -29,8 +28,8 @@ export interface IMQClient {
 }
 
 /**
- * The parts of an IMQ request this instrumentation reads, plus the two fields it
- * adds.
+ * The parts of an IMQ request this instrumentation reads. It writes only to
+ * `metadata`; the request's span is kept apart, see `getRequestSpan`.
  */
 export interface IMQRPCRequest {
     /** Remote method being invoked. */
@@ -39,19 +38,20 @@ export interface IMQRPCRequest {
     /** Identifier of the calling client. */
     from: string;
 
+    /** Arguments the remote method is called with. */
+    args?: any[];
+
     /**
-     * Serialisation hook. Replaced while the request is in flight so the live
-     * `span` is dropped from the wire payload rather than being serialised.
+     * Serialisation hook, if the request has one. Payload capture and sizing
+     * use it, to see the request as it goes over the wire.
      */
-    toJSON: () => any;
-
-    /** The span covering this request, attached by the instrumentation. */
-    span?: Span;
+    toJSON?: () => any;
 
     /**
      * Free-form envelope travelling with the request. The instrumentation stores
-     * the injected trace context under a `clientSpan` key, which is how a trace
-     * survives the hop between processes.
+     * the injected trace context under a `clientSpan` key (or the configured
+     * `carrierKey`), which is how a trace survives the hop between processes,
+     * and the client's send time under `imqSentAt`.
      */
     metadata?: any;
 }
@@ -63,7 +63,7 @@ export interface IMQRPCResponse {
 
     /**
      * Failure, if the call failed. Its presence marks the client span `ERROR` —
-     * accepted as either a string or an `Error`.
+     * accepted as a string, an `Error` or an {@link IMQError}.
      */
     error?: any;
 
@@ -71,6 +71,68 @@ export interface IMQRPCResponse {
     request?: IMQRPCRequest;
 }
 
+/**
+ * The error `@imqueue/rpc` sends back in a response when a call fails.
+ */
+export interface IMQError {
+    /** What went wrong, e.g. `IMQ_RPC_CALL_ERROR` or an application code. */
+    code: string;
+
+    /** Human-readable description. */
+    message: string;
+
+    /** Stack trace from the service side, when there is one. */
+    stack?: string;
+
+    /** The remote method that failed. */
+    method?: string;
+
+    /** The call's arguments, serialized. */
+    args?: string;
+
+    /** The error the service caught, before it was converted. */
+    original?: any;
+}
+
+/**
+ * A hook run before a client sends a request.
+ *
+ * @param req - the request about to be sent
+ * @param res - the response, where `@imqueue/rpc` passes one
+ */
+export type IMQBeforeCall = (
+    this: IMQClient,
+    req: IMQRPCRequest,
+    res?: IMQRPCResponse,
+) => Promise<void> | void;
+
+/**
+ * A hook run after a client receives a response.
+ *
+ * @param req - the request that was sent
+ * @param res - the response received
+ */
+export type IMQAfterCall = (
+    this: IMQClient,
+    req: IMQRPCRequest,
+    res?: IMQRPCResponse,
+) => Promise<void> | void;
+
+/**
+ * An around-hook wrapping a service's handling of a request. It must call
+ * `next` to run the handler, and resolve with what `next` resolves with.
+ *
+ * @param req - the request being handled
+ * @param res - the response being built
+ * @param next - runs the handler
+ */
+export type IMQWrapCall = (
+    this: IMQClient,
+    req: IMQRPCRequest,
+    res: IMQRPCResponse,
+    next: () => Promise<unknown>,
+) => Promise<unknown>;
+
 /**
  * The subset of `@imqueue/rpc`'s default option singletons this instrumentation
  * mutates. `beforeCall`/`afterCall` are used on the client; `wrapCall` (the
@@ -82,13 +144,13 @@ export interface IMQCallHooks {
      * Runs before a client sends a request. Starts the CLIENT span and injects
      * its trace context into the request metadata.
      */
-    beforeCall?: Function;
+    beforeCall?: IMQBeforeCall;
 
     /**
      * Runs after a client receives a response. Marks the span `ERROR` if the
      * response carries one, then ends it.
      */
-    afterCall?: Function;
+    afterCall?: IMQAfterCall;
 
     /**
      * Wraps a service's handling of a request — an around-hook receiving a
@@ -96,5 +158,5 @@ export interface IMQCallHooks {
      * INSIDE the SERVER span's context, which is what makes spans created
      * downstream nest under it.
      */
-    wrapCall?: Function;
+    wrapCall?: IMQWrapCall;
 }
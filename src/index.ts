@@ -21,4 +21,8 @@
  */
 export * from './instrumentation.js';
 export * from './types.js';
+export { defaultSpanName, serviceMethodSpanName } from './spanName.js';
+export { type NamePattern } from './match.js';
+export { getRequestSpan } from './spanStore.js';
 export * from './enums/index.js';
+export { SemconvStability } from '@opentelemetry/instrumentation';
@@ -0,0 +1,131 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type IMQRPCRequest } from './imq/types.js';
+import { type InFlightCall } from './types.js';
+
+/** An in-flight call as tracked — what is listed, plus the bookkeeping. */
+export interface TrackedCall extends Omit<InFlightCall, 'age'> {
+    /** `performance.now()` at send, for the duration metric. */
+    readonly start: number;
+
+    /** Pending timeout, if a client span timeout is configured. */
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * The client calls that have been sent and not yet answered, keyed by request.
+ *
+ * @remarks
+ * Taking a call out is what claims it: whichever of the response, the timeout
+ * or a flush gets there first ends the span, and the others find nothing. Calls
+ * stay here until one of those happens, so with no timeout configured a reply
+ * that never comes keeps its request referenced — which is exactly what makes
+ * it visible in {@link InFlightRegistry.list}. {@link InFlightRegistry.trim}
+ * bounds how many such calls can pile up.
+ */
+export class InFlightRegistry {
+    private readonly calls = new Map<IMQRPCRequest, TrackedCall>();
+
+    /**
+     * Starts tracking a call.
+     *
+     * @param req - the request sent
+     * @param call - the span and details of the call
+     * @param timeout - milliseconds to wait for the response; none if not
+     *                  positive
+     * @param onTimeout - called with the call, already taken out, if the
+     *                    timeout expires first
+     */
+    public add(
+        req: IMQRPCRequest,
+        call: TrackedCall,
+        timeout: number | undefined,
+        onTimeout: (req: IMQRPCRequest, call: TrackedCall) => void,
+    ): void {
+        if (timeout && timeout > 0) {
+            call.timer = setTimeout(() => {
+                if (this.calls.get(req) === call) {
+                    this.calls.delete(req);
+                    onTimeout(req, call);
+                }
+            }, timeout);
+            // Waiting on a reply must not keep the process alive.
+            call.timer.unref();
+        }
+
+        this.calls.set(req, call);
+    }
+
+    /**
+     * Stops tracking a call and returns it, or `undefined` if it was not
+     * tracked or has already been taken.
+     */
+    public take(req: IMQRPCRequest): TrackedCall | undefined {
+        const call = this.calls.get(req);
+
+        if (call) {
+            clearTimeout(call.timer);
+            this.calls.delete(req);
+        }
+
+        return call;
+    }
+
+    /** Stops tracking every call and returns them all. */
+    public takeAll(): TrackedCall[] {
+        return [...this.calls.keys()].map(req => this.take(req)!);
+    }
+
+    /**
+     * Stops tracking the oldest calls until at most `limit` are left, and
+     * returns them.
+     */
+    public trim(limit: number): TrackedCall[] {
+        const taken: TrackedCall[] = [];
+
+        // Maps iterate in insertion order, so the first keys are the oldest.
+        for (const req of this.calls.keys()) {
+            if (this.calls.size <= limit) {
+                break;
+            }
+
+            taken.push(this.take(req)!);
+        }
+
+        return taken;
+    }
+
+    /** Snapshots the calls in flight, oldest first. */
+    public list(): InFlightCall[] {
+        const now = Date.now();
+
+        return [...this.calls.values()].map(
+            ({ span, serviceName, method, startTime }) => ({
+                span,
+                serviceName,
+                method,
+                startTime,
+                age: now - startTime,
+            }),
+        );
+    }
+}
@@ -15,30 +15,82 @@
  */
 import {
     InstrumentationBase,
-    type InstrumentationConfig,
+    safeExecuteInTheMiddle,
+    SemconvStability,
 } from '@opentelemetry/instrumentation';
 import {
+    type Attributes,
+    type Context,
     context,
+    defaultTextMapGetter,
+    defaultTextMapSetter,
     propagation,
+    type Span,
     SpanKind,
     SpanStatusCode,
     trace,
     type Tracer,
 } from '@opentelemetry/api';
+import { W3CBaggagePropagator } from '@opentelemetry/core';
 import { createRequire } from 'node:module';
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { pathToFileURL } from 'node:url';
-import { AttributeNames, SpanNames, TraceKind } from './enums/index.js';
+import {
+    AttributeNames,
+    SemconvAttributeNames,
+    SpanNames,
+    TraceKind,
+} from './enums/index.js';
 import {
     type IMQCallHooks,
     type IMQClient,
     type IMQRPCRequest,
     type IMQRPCResponse,
 } from './imq/types.js';
+import {
+    type ImqueueInstrumentationConfig,
+    type InFlightCall,
+} from './types.js';
+import { formatSpanName } from './spanName.js';
+import { type PayloadKind, RpcMetrics } from './metrics.js';
+import {
+    payloadSize,
+    serializePayload,
+    shouldCapturePayload,
+} from './payload.js';
+import { isIgnored } from './match.js';
+import { InFlightRegistry, type TrackedCall } from './inflight.js';
+import { imqErrorAttributes, recordError } from './errors.js';
+import { setRequestSpan } from './spanStore.js';
 
 const PACKAGE_NAME = '@imqueue/rpc';
 const COMPONENT_NAME = 'imq';
+const RPC_SYSTEM = 'imqueue';
+const DEFAULT_CARRIER_KEY = 'clientSpan';
+// Unanswered client calls kept track of before the oldest are given up on.
+const DEFAULT_MAX_IN_FLIGHT_CALLS = 10000;
+// Request metadata key the client's send time travels under, in milliseconds
+// since the epoch — what the service measures the queue wait from.
+const SENT_AT_KEY = 'imqSentAt';
+// Span event marking a payload over the configured size threshold.
+const LARGE_PAYLOAD_EVENT = 'imq.payload.large';
+const HOOK_NAMES = ['beforeCall', 'afterCall', 'wrapCall'] as const;
+// Marks an option singleton with the instrumentation whose hooks it carries.
+// Registered globally, so two copies of this package see each other's marks.
+const PATCHED: unique symbol = Symbol.for('@imqueue/opentelemetry.patched');
+// How each `onConflict` policy is reported when another instrumentation
+// already owns a singleton's hooks.
+const CONFLICT_ACTIONS = {
+    warn: 'chaining onto them, calls may be traced twice',
+    skip: 'leaving them in place, this instance will not trace',
+    override: 'replacing them',
+} as const;
+
+// Baggage travels in the same carrier as the trace context, as a W3C `baggage`
+// entry — independent of the configured propagator, so it works the same with
+// B3 or any other.
+const baggagePropagator = new W3CBaggagePropagator();
 
 // This is the OpenTelemetry instrumentation SCOPE NAME, not just a label: it
 // reaches `otel.scope.name` on every span this instrumentation emits (see the
@@ -59,6 +111,32 @@ try {
     // Keep the fallback name/version if the package.json can't be read.
 }
 
+/**
+ * Who patched an option singleton, as recorded under {@link PATCHED}.
+ */
+interface PatchOwner {
+    /** Package name of the instrumentation that patched it. */
+    readonly name: string;
+
+    /** Its package version. */
+    readonly version: string;
+
+    /** The instrumentation instance itself. */
+    readonly instrumentation: object;
+
+    /** The hooks the singleton had before that instance patched it. */
+    readonly originals: IMQCallHooks;
+
+    /**
+     * The owner of those hooks, if that instance chained onto another's —
+     * marked as owner again when it unpatches.
+     */
+    readonly previous?: PatchOwner;
+}
+
+/** An option singleton as patched: its hooks, and the mark on who did it. */
+type PatchedHooks = IMQCallHooks & { [PATCHED]?: PatchOwner };
+
 /**
  * The `@imqueue/rpc` default option singletons this instrumentation patches.
  *
@@ -115,17 +193,40 @@ export interface RpcModule {
  * });
  * ```
  */
-export class ImqueueInstrumentation extends InstrumentationBase {
+export class ImqueueInstrumentation extends InstrumentationBase<ImqueueInstrumentationConfig> {
+    // Declared rather than initialized: the base constructor calls
+    // `_updateMetricInstruments()` before subclass fields are set up, and an
+    // initializer would then overwrite the instruments it created.
+    declare private metrics: RpcMetrics;
+
+    // Declared for the same reason: `enable()`, which hooks up the registry,
+    // also runs inside the base constructor. Created on first use.
+    declare private inFlight?: InFlightRegistry;
+
+    // The mark we put on each option singleton we patched, keyed by the
+    // singleton; it holds the hooks from before. Declared for the same reason
+    // as the registry.
+    declare private marks?: Map<IMQCallHooks, PatchOwner>;
+
     /**
-     * @param config - standard OpenTelemetry instrumentation config. Note that
-     *                 `enabled` is honoured by `registerInstrumentations`, which
-     *                 calls {@link ImqueueInstrumentation.enable} for you; there
-     *                 are no options specific to this instrumentation.
+     * @param config - standard OpenTelemetry instrumentation config plus the
+     *                 IMQ-specific options. Note that `enabled` is honoured by
+     *                 `registerInstrumentations`, which calls
+     *                 {@link ImqueueInstrumentation.enable} for you.
      */
-    constructor(config: InstrumentationConfig = {}) {
+    constructor(config: ImqueueInstrumentationConfig = {}) {
         super(instrumentationName, instrumentationVersion, config);
     }
 
+    /**
+     * (Re)creates the RPC duration histograms and request/error counters from
+     * the current meter. Called by the base class on construction and whenever
+     * a meter provider is set.
+     */
+    protected override _updateMetricInstruments(): void {
+        this.metrics = new RpcMetrics(this.meter);
+    }
+
     /**
      * No module-load hook: we patch `@imqueue/rpc`'s mutable default options
      * directly (see the class docs), so there is nothing to intercept at import.
@@ -174,6 +275,14 @@ export class ImqueueInstrumentation extends InstrumentationBase {
      * It is public so a test, or an app whose `rpc` copy this cannot resolve, can
      * pass the module in explicitly.
      *
+     * Hooks the application already installed are kept and chained: its
+     * `beforeCall` runs after the span starts, its `afterCall` before the span
+     * ends, and its `wrapCall` runs inside the SERVER span's context.
+     *
+     * Each patched singleton is marked with its owner, so patching the same
+     * module again is a no-op. A singleton another instrumentation already owns
+     * is handled as {@link ImqueueInstrumentationConfig.onConflict} says.
+     *
      * @param rpc - module whose default option singletons should be hooked
      * @returns the same object, hooks applied in place
      */
@@ -181,11 +290,11 @@ export class ImqueueInstrumentation extends InstrumentationBase {
         const { client, service } = this.hooks();
 
         if (rpc.DEFAULT_IMQ_CLIENT_OPTIONS) {
-            Object.assign(rpc.DEFAULT_IMQ_CLIENT_OPTIONS, client);
+            this.install(rpc.DEFAULT_IMQ_CLIENT_OPTIONS, client);
         }
 
         if (rpc.DEFAULT_IMQ_SERVICE_OPTIONS) {
-            Object.assign(rpc.DEFAULT_IMQ_SERVICE_OPTIONS, service);
+            this.install(rpc.DEFAULT_IMQ_SERVICE_OPTIONS, service);
         }
 
         return rpc;
@@ -196,29 +305,138 @@ export class ImqueueInstrumentation extends InstrumentationBase {
      * {@link ImqueueInstrumentation.patch}.
      *
      * @remarks
-     * Deletes the three hook properties outright rather than restoring whatever
-     * was there before, so a `beforeCall` the application had set itself is lost
-     * too. In practice the defaults are empty, but do not use this to toggle
-     * tracing on a module you also hook yourself.
+     * Restores each hook exactly as it was before patching — the application's
+     * own hook where there was one, no property at all where there was none.
+     * Option singletons this instance never patched, or whose hooks another
+     * instrumentation has since taken over, are left untouched. Where this
+     * instance chained onto another's hooks, that one owns them again.
      *
      * @param rpc - module to remove the hooks from
      * @returns the same object, hooks removed in place
      */
     public unpatch(rpc: RpcModule): RpcModule {
+        const marks = this.marks;
+
+        if (!marks) {
+            return rpc;
+        }
+
         for (const options of [
             rpc.DEFAULT_IMQ_CLIENT_OPTIONS,
             rpc.DEFAULT_IMQ_SERVICE_OPTIONS,
         ]) {
-            if (options) {
-                delete options.beforeCall;
-                delete options.afterCall;
-                delete options.wrapCall;
+            const own = options && marks.get(options);
+
+            if (!options || !own || ownerOf(options) !== own) {
+                continue;
+            }
+
+            for (const name of HOOK_NAMES) {
+                copyHook(options, own.originals, name);
             }
+
+            if (own.previous) {
+                mark(options, own.previous);
+            } else {
+                unmark(options);
+            }
+
+            marks.delete(options);
         }
 
         return rpc;
     }
 
+    /**
+     * Lists the client calls sent and not yet answered, oldest first — calls
+     * whose `imq.request` span is still open.
+     *
+     * @returns a snapshot; it does not change as calls complete
+     */
+    public inFlightCalls(): InFlightCall[] {
+        return this.calls.list();
+    }
+
+    /**
+     * Ends the span of every client call still waiting for a response, marking
+     * each with an `imq.flushed` event, so they are exported rather than lost.
+     * Call it on shutdown, before the tracer provider flushes. A response that
+     * arrives for a flushed call afterwards is ignored.
+     *
+     * @returns how many spans were ended
+     */
+    public endInFlightCalls(): number {
+        const calls = this.calls.takeAll();
+
+        for (const { span } of calls) {
+            span.addEvent('imq.flushed');
+            span.end();
+        }
+
+        return calls.length;
+    }
+
+    /**
+     * Chains the tracing hooks onto an option singleton's own, remembering the
+     * originals the first time so {@link ImqueueInstrumentation.unpatch} can
+     * put them back, and marks the singleton as ours.
+     */
+    private install(options: IMQCallHooks, hooks: IMQCallHooks): void {
+        const owner = ownerOf(options);
+
+        if (owner?.instrumentation === this) {
+            return;
+        }
+
+        const marks = (this.marks ??= new Map());
+        const own = marks.get(options);
+        let saved = own?.originals;
+        let previous = own ? own.previous : owner;
+
+        if (owner) {
+            const policy = this.getConfig().onConflict ?? 'warn';
+
+            this._diag.warn(
+                `@imqueue/rpc hooks already patched by ${owner.name}@` +
+                    `${owner.version}; ${CONFLICT_ACTIONS[policy]}`,
+            );
+
+            if (policy === 'skip') {
+                return;
+            }
+
+            if (policy === 'override' && !own) {
+                saved = owner.originals;
+                previous = owner.previous;
+            }
+        }
+
+        if (!saved) {
+            saved = {};
+
+            for (const name of HOOK_NAMES) {
+                copyHook(saved, options, name);
+            }
+        }
+
+        const ours: PatchOwner = {
+            name: instrumentationName,
+            version: instrumentationVersion,
+            instrumentation: this,
+            originals: saved,
+            previous,
+        };
+
+        Object.assign(options, composeHooks(hooks, saved));
+        mark(options, ours);
+        marks.set(options, ours);
+    }
+
+    /** The in-flight client call registry, created on first use. */
+    private get calls(): InFlightRegistry {
+        return (this.inFlight ??= new InFlightRegistry());
+    }
+
     /**
      * Resolve the live `@imqueue/rpc` module (shared with the app's import).
      * Tries this package's own location first (the normal hoisted install),
@@ -244,39 +462,318 @@ export class ImqueueInstrumentation extends InstrumentationBase {
 
     /**
      * Build the client (`beforeCall`/`afterCall`) and service (`wrapCall`)
-     * hooks. They read the current tracer lazily, so a tracer provider
-     * registered after construction is still honoured.
+     * hooks. They read the current tracer and config lazily, so a tracer
+     * provider registered, or a config set, after construction is still
+     * honoured.
      */
     private hooks(): { client: IMQCallHooks; service: IMQCallHooks } {
         const tracer = (): Tracer => this.tracer;
+        const config = (): ImqueueInstrumentationConfig => this.getConfig();
+        const metrics = (): RpcMetrics => this.metrics;
+        const calls = (): InFlightRegistry => this.calls;
+        const timeOut = (req: IMQRPCRequest, call: TrackedCall): void => {
+            const timeout = this.getConfig().clientSpanTimeout;
+
+            call.span.setAttribute(AttributeNames.IMQ_TIMEOUT, true);
+            call.span.addEvent('imq.timeout', { 'imq.timeout.ms': timeout });
+            call.span.setStatus({
+                code: SpanStatusCode.ERROR,
+                message: `No response within ${timeout}ms`,
+            });
+            call.span.end();
+            metrics().record(
+                TraceKind.CLIENT,
+                metricAttributes(call.serviceName, req),
+                performance.now() - call.start,
+                true,
+            );
+        };
+        const spanName = (
+            kind: TraceKind,
+            serviceName: string,
+            req: IMQRPCRequest,
+        ): string =>
+            formatSpanName(this.getConfig().spanNameFormatter, {
+                kind,
+                service: serviceName,
+                method: req.method,
+                defaultName:
+                    kind === TraceKind.CLIENT
+                        ? SpanNames.IMQ_REQUEST
+                        : SpanNames.IMQ_RESPONSE,
+            });
+        const inject = (ctx: Context, req: IMQRPCRequest): void => {
+            const {
+                carrierKey = DEFAULT_CARRIER_KEY,
+                propagator,
+                propagateBaggage = true,
+            } = this.getConfig();
+            const carrier = {};
+
+            req.metadata = req.metadata || {};
+            req.metadata[carrierKey] = carrier;
+
+            if (propagator) {
+                propagator.inject(ctx, carrier, defaultTextMapSetter);
+            } else {
+                propagation.inject(ctx, carrier);
+            }
+
+            if (propagateBaggage) {
+                baggagePropagator.inject(ctx, carrier, defaultTextMapSetter);
+            }
+        };
+        const extract = (req: IMQRPCRequest): Context => {
+            const {
+                carrierKey = DEFAULT_CARRIER_KEY,
+                fallbackCarrierKeys = [],
+                propagator,
+                propagateBaggage = true,
+            } = this.getConfig();
+            const metadata = req.metadata || {};
+            const key = [carrierKey, ...fallbackCarrierKeys].find(
+                candidate => metadata[candidate],
+            );
+            const carrier = key === undefined ? {} : metadata[key];
+            const parent = propagator
+                ? propagator.extract(
+                      context.active(),
+                      carrier,
+                      defaultTextMapGetter,
+                  )
+                : propagation.extract(context.active(), carrier);
+
+            return propagateBaggage
+                ? baggagePropagator.extract(
+                      parent,
+                      carrier,
+                      defaultTextMapGetter,
+                  )
+                : parent;
+        };
+        const baggageAttributes = (parent: Context): Attributes => {
+            const keys = this.getConfig().baggageAttributes || [];
+            const baggage = propagation.getBaggage(parent);
+            const promoted: Attributes = {};
+
+            for (const key of keys) {
+                const entry = baggage?.getEntry(key);
+
+                if (entry) {
+                    promoted[key] = entry.value;
+                }
+            }
+
+            return promoted;
+        };
+        const ignored = (serviceName: string, req: IMQRPCRequest): boolean =>
+            isIgnored(this.getConfig(), serviceName, req);
+        const captureArguments = (
+            span: Span,
+            serviceName: string,
+            req: IMQRPCRequest,
+        ): void => {
+            const options = this.getConfig().capturePayload;
+
+            if (
+                shouldCapturePayload(options, serviceName, req.method) &&
+                options.arguments !== false
+            ) {
+                span.setAttribute(
+                    AttributeNames.IMQ_REQUEST_ARGS,
+                    serializePayload(requestShape(req).args, options),
+                );
+            }
+        };
+        const captureResult = (
+            span: Span,
+            serviceName: string,
+            req: IMQRPCRequest,
+            data: unknown,
+        ): void => {
+            const options = this.getConfig().capturePayload;
+
+            if (
+                data !== undefined &&
+                shouldCapturePayload(options, serviceName, req.method) &&
+                options.results !== false
+            ) {
+                span.setAttribute(
+                    AttributeNames.IMQ_RESPONSE_DATA,
+                    serializePayload(data, options),
+                );
+            }
+        };
+        // Measures a serialized request or response and records its size as
+        // configured: attribute, histogram, oversized-payload event.
+        const recordSize = (
+            span: Span,
+            kind: TraceKind,
+            payload: PayloadKind,
+            serviceName: string,
+            req: IMQRPCRequest,
+            value: unknown,
+        ): void => {
+            const options = this.getConfig().payloadSize;
+
+            // Sizing costs one more serialization per payload, so it is off
+            // unless asked for.
+            if (
+                !options ||
+                (options.attributes === false &&
+                    !options.metrics &&
+                    options.largeThreshold === undefined)
+            ) {
+                return;
+            }
+
+            const size = payloadSize(value);
+
+            if (size === undefined) {
+                return;
+            }
+
+            if (options.attributes !== false) {
+                span.setAttribute(
+                    payload === 'request'
+                        ? AttributeNames.IMQ_REQUEST_SIZE
+                        : AttributeNames.IMQ_RESPONSE_SIZE,
+                    size,
+                );
+            }
+
+            if (options.metrics) {
+                metrics().recordSize(
+                    kind,
+                    payload,
+                    metricAttributes(serviceName, req),
+                    size,
+                );
+            }
+
+            if (
+                options.largeThreshold !== undefined &&
+                size > options.largeThreshold
+            ) {
+                span.addEvent(LARGE_PAYLOAD_EVENT, {
+                    'imq.payload': payload,
+                    'imq.payload.size': size,
+                    'imq.payload.threshold': options.largeThreshold,
+                });
+            }
+        };
+        // Records an IMQ response error — the same on both sides of a call —
+        // and says whether it counts as a failure.
+        const recordResponseError = (span: Span, error: unknown): boolean => {
+            const { isExpectedError, errorAttributes } = this.getConfig();
+            const failed = recordError(span, error, isExpectedError);
+
+            span.setAttributes(imqErrorAttributes(error, errorAttributes));
+
+            return failed;
+        };
+        const attributes = (
+            kind: TraceKind,
+            serviceName: string,
+            req: IMQRPCRequest,
+        ): Attributes =>
+            callAttributes(
+                kind,
+                serviceName,
+                req,
+                this.getConfig().semconvStability ?? SemconvStability.DUPLICATE,
+            );
+        const requestHook = (
+            span: Span,
+            req: IMQRPCRequest,
+            client: IMQClient,
+        ): void => {
+            const hook = this.getConfig().requestHook;
+
+            if (hook) {
+                safeExecuteInTheMiddle(
+                    () => hook(span, req, client),
+                    err => err && this._diag.error('requestHook failed', err),
+                    true,
+                );
+            }
+        };
+        const responseHook = (
+            span: Span,
+            req: IMQRPCRequest,
+            res?: IMQRPCResponse,
+        ): void => {
+            const hook = this.getConfig().responseHook;
+
+            if (hook) {
+                safeExecuteInTheMiddle(
+                    () => hook(span, req, res),
+                    err => err && this._diag.error('responseHook failed', err),
+                    true,
+                );
+            }
+        };
 
         const beforeCall = async function (
             this: IMQClient,
             req: IMQRPCRequest,
         ): Promise<void> {
-            keepSpanUnserialized(req);
-
-            const span = tracer().startSpan(SpanNames.IMQ_REQUEST, {
-                kind: SpanKind.CLIENT,
-                attributes: {
-                    [AttributeNames.SPAN_KIND]: TraceKind.CLIENT,
-                    [AttributeNames.RESOURCE_NAME]: `${this.serviceName}.${
-                        req.method
-                    }`,
-                    [AttributeNames.SERVICE_NAME]: this.serviceName,
-                    [AttributeNames.IMQ_CLIENT]: req.from,
-                    [AttributeNames.COMPONENT]: COMPONENT_NAME,
+            if (ignored(this.serviceName, req)) {
+                // No span of our own, but the caller's context still travels
+                // on, so the trace stays joined downstream.
+                inject(context.active(), req);
+
+                return;
+            }
+
+            const span = tracer().startSpan(
+                spanName(TraceKind.CLIENT, this.serviceName, req),
+                {
+                    kind: SpanKind.CLIENT,
+                    attributes: attributes(
+                        TraceKind.CLIENT,
+                        this.serviceName,
+                        req,
+                    ),
                 },
-            });
+            );
 
             // Propagate the client span downstream via the request metadata.
-            req.metadata = req.metadata || {};
-            req.metadata.clientSpan = {};
-            propagation.inject(
-                trace.setSpan(context.active(), span),
-                req.metadata.clientSpan,
+            inject(trace.setSpan(context.active(), span), req);
+            req.metadata[SENT_AT_KEY] = Date.now();
+            setRequestSpan(req, span);
+            calls().add(
+                req,
+                {
+                    span,
+                    serviceName: this.serviceName,
+                    method: req.method,
+                    startTime: Date.now(),
+                    start: performance.now(),
+                },
+                config().clientSpanTimeout,
+                timeOut,
+            );
+
+            // A call whose reply never comes stays tracked until the timeout,
+            // if any; past the limit the oldest are ended rather than kept.
+            for (const evicted of calls().trim(
+                config().maxInFlightCalls ?? DEFAULT_MAX_IN_FLIGHT_CALLS,
+            )) {
+                evicted.span.addEvent('imq.evicted');
+                evicted.span.end();
+            }
+
+            recordSize(
+                span,
+                TraceKind.CLIENT,
+                'request',
+                this.serviceName,
+                req,
+                req,
             );
-            req.span = span;
+            captureArguments(span, this.serviceName, req);
+            requestHook(span, req, this);
         };
 
         const afterCall = async function (
@@ -284,67 +781,128 @@ export class ImqueueInstrumentation extends InstrumentationBase {
             req: IMQRPCRequest,
             res?: IMQRPCResponse,
         ): Promise<void> {
-            const span = req.span;
+            // Taking the call claims it: one that timed out or was flushed
+            // has had its span ended already.
+            const call = calls().take(req);
 
-            if (!span) {
+            if (!call) {
                 return;
             }
 
-            if (res?.error) {
-                span.setStatus({
-                    code: SpanStatusCode.ERROR,
-                    message: errorMessage(res.error),
-                });
+            const { span } = call;
+
+            const failed = !!res?.error && recordResponseError(span, res.error);
+
+            if (res) {
+                recordSize(
+                    span,
+                    TraceKind.CLIENT,
+                    'response',
+                    this.serviceName,
+                    req,
+                    res,
+                );
             }
 
+            captureResult(span, this.serviceName, req, res?.data);
+            responseHook(span, req, res);
             span.end();
+            metrics().record(
+                TraceKind.CLIENT,
+                metricAttributes(this.serviceName, req),
+                performance.now() - call.start,
+                failed,
+            );
         };
 
         const wrapCall = async function (
             this: IMQClient,
             req: IMQRPCRequest,
-            _res: IMQRPCResponse,
+            res: IMQRPCResponse,
             next: () => Promise<unknown>,
         ): Promise<unknown> {
-            keepSpanUnserialized(req);
+            const parent = extract(req);
 
-            const parent = propagation.extract(
-                context.active(),
-                (req.metadata || {}).clientSpan || {},
-            );
+            if (ignored(this.name, req)) {
+                // Untraced, but still run under the propagated parent so spans
+                // the handler creates join the caller's trace.
+                return context.with(parent, next);
+            }
+
+            const wait = queueWait(req);
             const span = tracer().startSpan(
-                SpanNames.IMQ_RESPONSE,
+                spanName(TraceKind.SERVER, this.name, req),
                 {
                     kind: SpanKind.SERVER,
                     attributes: {
-                        [AttributeNames.SPAN_KIND]: TraceKind.SERVER,
-                        [AttributeNames.RESOURCE_NAME]: `${this.name}.${
-                            req.method
-                        }`,
-                        [AttributeNames.SERVICE_NAME]: this.name,
-                        [AttributeNames.IMQ_CLIENT]: req.from,
-                        [AttributeNames.COMPONENT]: COMPONENT_NAME,
+                        ...attributes(TraceKind.SERVER, this.name, req),
+                        ...baggageAttributes(parent),
                     },
                 },
                 parent,
             );
 
-            req.span = span;
+            setRequestSpan(req, span);
+
+            if (wait !== undefined) {
+                span.setAttribute(AttributeNames.IMQ_QUEUE_WAIT, wait);
+                metrics().recordQueueWait(
+                    metricAttributes(this.name, req),
+                    wait,
+                );
+            }
+
+            captureArguments(span, this.name, req);
+            requestHook(span, req, this);
+
+            const start = performance.now();
+            let failed = false;
 
             try {
                 // Run the handler INSIDE the span's context so anything it (or
-                // its downstream calls) traces nests under this server span.
-                return await context.with(trace.setSpan(parent, span), next);
+                // its downstream calls) traces nests under this server span —
+                // with the caller's baggage active, too.
+                const result = await context.with(
+                    trace.setSpan(parent, span),
+                    next,
+                );
+
+                // A handler failure `@imqueue/rpc` caught and put in the
+                // response resolves `next()` all the same: the client sees an
+                // error, so the server span must too.
+                if (res?.error) {
+                    failed = recordResponseError(span, res.error);
+                }
+
+                // The response may not carry the result yet; measure it as it
+                // will be sent.
+                recordSize(
+                    span,
+                    TraceKind.SERVER,
+                    'response',
+                    this.name,
+                    req,
+                    res?.data === undefined && !res?.error
+                        ? { ...res, data: result }
+                        : res,
+                );
+
+                captureResult(span, this.name, req, result);
+
+                return result;
             } catch (err: any) {
-                span.recordException(err);
-                span.setStatus({
-                    code: SpanStatusCode.ERROR,
-                    message: err?.message,
-                });
+                failed = recordError(span, err, config().isExpectedError);
 
                 throw err;
             } finally {
+                responseHook(span, req, res);
                 span.end();
+                metrics().record(
+                    TraceKind.SERVER,
+                    metricAttributes(this.name, req),
+                    performance.now() - start,
+                    failed,
+                );
             }
         };
 
@@ -355,17 +913,163 @@ export class ImqueueInstrumentation extends InstrumentationBase {
     }
 }
 
-/** Keep the live span object out of serialized request payloads. */
-function keepSpanUnserialized(req: IMQRPCRequest): void {
-    req.toJSON = () => {
-        const copy: any = Object.assign({}, req);
+/**
+ * Reads who patched an option singleton, if anyone did.
+ *
+ * @param options - the option singleton to check
+ * @returns the recorded owner, or `undefined` if it is not patched
+ */
+function ownerOf(options: PatchedHooks): PatchOwner | undefined {
+    return options[PATCHED];
+}
+
+/**
+ * Marks an option singleton as patched by `owner`. The mark is non-enumerable,
+ * so spreading the defaults into client or service options does not copy it
+ * along.
+ */
+function mark(options: PatchedHooks, owner: PatchOwner): void {
+    Object.defineProperty(options, PATCHED, {
+        configurable: true,
+        value: owner,
+    });
+}
+
+/** Removes the mark {@link mark} set. */
+function unmark(options: PatchedHooks): void {
+    delete options[PATCHED];
+}
+
+/**
+ * Copies one hook across exactly: set on `to` if `from` has it as its own
+ * property, removed from `to` if not.
+ */
+function copyHook<K extends keyof IMQCallHooks>(
+    to: IMQCallHooks,
+    from: IMQCallHooks,
+    name: K,
+): void {
+    if (Object.hasOwn(from, name)) {
+        to[name] = from[name];
+    } else {
+        delete to[name];
+    }
+}
+
+/**
+ * Combines the tracing hooks with the application's, so both run. Only the
+ * tracing hooks given are produced; an original with no tracing counterpart is
+ * left where it is.
+ */
+function composeHooks(
+    tracing: IMQCallHooks,
+    original: IMQCallHooks,
+): IMQCallHooks {
+    const composed: IMQCallHooks = {};
+    const { beforeCall, afterCall, wrapCall } = tracing;
+    const {
+        beforeCall: ownBeforeCall,
+        afterCall: ownAfterCall,
+        wrapCall: ownWrapCall,
+    } = original;
 
-        delete copy.span;
+    if (beforeCall) {
+        composed.beforeCall = ownBeforeCall
+            ? async function (this: IMQClient, req, res) {
+                  await beforeCall.call(this, req, res);
+                  await ownBeforeCall.call(this, req, res);
+              }
+            : beforeCall;
+    }
+
+    if (afterCall) {
+        composed.afterCall = ownAfterCall
+            ? async function (this: IMQClient, req, res) {
+                  try {
+                      await ownAfterCall.call(this, req, res);
+                  } finally {
+                      // the span ends even if the application's hook throws
+                      await afterCall.call(this, req, res);
+                  }
+              }
+            : afterCall;
+    }
 
-        return copy;
+    if (wrapCall) {
+        composed.wrapCall = ownWrapCall
+            ? function (this: IMQClient, req, res, next) {
+                  return wrapCall.call(this, req, res, () =>
+                      ownWrapCall.call(this, req, res, next),
+                  );
+              }
+            : wrapCall;
+    }
+
+    return composed;
+}
+
+/**
+ * The attributes an RPC span starts with: the legacy {@link AttributeNames},
+ * the {@link SemconvAttributeNames}, or both, as `stability` selects.
+ */
+function callAttributes(
+    kind: TraceKind,
+    serviceName: string,
+    req: IMQRPCRequest,
+    stability: SemconvStability,
+): Attributes {
+    const attributes: Attributes = {};
+
+    if (stability & SemconvStability.OLD) {
+        Object.assign(attributes, {
+            [AttributeNames.SPAN_KIND]: kind,
+            [AttributeNames.RESOURCE_NAME]: `${serviceName}.${req.method}`,
+            [AttributeNames.SERVICE_NAME]: serviceName,
+            [AttributeNames.IMQ_CLIENT]: req.from,
+            [AttributeNames.COMPONENT]: COMPONENT_NAME,
+        });
+    }
+
+    if (stability & SemconvStability.STABLE) {
+        Object.assign(attributes, {
+            [SemconvAttributeNames.RPC_SYSTEM]: RPC_SYSTEM,
+            [SemconvAttributeNames.RPC_SERVICE]: serviceName,
+            [SemconvAttributeNames.RPC_METHOD]: req.method,
+            [SemconvAttributeNames.MESSAGING_SYSTEM]: RPC_SYSTEM,
+            [SemconvAttributeNames.MESSAGING_DESTINATION_NAME]: serviceName,
+            [SemconvAttributeNames.MESSAGING_OPERATION_TYPE]:
+                kind === TraceKind.CLIENT ? 'send' : 'process',
+            [SemconvAttributeNames.MESSAGING_CLIENT_ID]: req.from,
+        });
+    }
+
+    return attributes;
+}
+
+/** The labels every RPC metric is recorded with. */
+function metricAttributes(serviceName: string, req: IMQRPCRequest): Attributes {
+    return {
+        [SemconvAttributeNames.RPC_SYSTEM]: RPC_SYSTEM,
+        [SemconvAttributeNames.RPC_SERVICE]: serviceName,
+        [SemconvAttributeNames.RPC_METHOD]: req.method,
     };
 }
 
-function errorMessage(error: any): string {
-    return typeof error === 'string' ? error : error?.message;
+/** The request as it goes over the wire — through its `toJSON`, if any. */
+function requestShape(req: IMQRPCRequest): IMQRPCRequest {
+    return typeof req.toJSON === 'function' ? req.toJSON() : req;
+}
+
+/**
+ * How long a request waited between the client sending it and now, from the
+ * send time the client stamped into its metadata; `undefined` if it has none.
+ * Clamped at zero: a client clock running ahead of ours would otherwise make
+ * the wait negative.
+ */
+function queueWait(req: IMQRPCRequest): number | undefined {
+    const sentAt = req.metadata?.[SENT_AT_KEY];
+
+    return typeof sentAt === 'number' && Number.isFinite(sentAt)
+        ? Math.max(0, Date.now() - sentAt)
+        : undefined;
 }
@@ -0,0 +1,224 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type Context, context } from '@opentelemetry/api';
+
+/**
+ * Called once, when a traced result has been consumed: with the number of
+ * items it produced, and the error that ended it, if one did.
+ */
+export type ConsumedCallback = (items: number, error?: unknown) => void;
+
+/**
+ * Whether a method's result is consumed after the method returns — a Node
+ * `Readable`, an async iterable or a generator — so its span should stay open
+ * until that is done rather than end on return.
+ *
+ * @remarks
+ * Plain iterables such as arrays and `Map`s are excluded: all their work is done
+ * by the time they are returned.
+ */
+export function isConsumedLater(value: any): boolean {
+    return isReadable(value) || isAsyncIterable(value) || isGenerator(value);
+}
+
+/**
+ * Watches a result {@link isConsumedLater | consumed later} and calls `done` when
+ * it completes, fails or is abandoned.
+ *
+ * Iterators are returned wrapped in a proxy that counts items and runs each step
+ * inside `ctx`, so spans started by a generator's body nest under the traced
+ * method. Streams are returned as they are; their events are observed by
+ * wrapping the instance's `emit`, never by adding listeners, so attaching
+ * neither switches a stream into flowing mode nor swallows its `'error'`.
+ *
+ * @param value - the result to watch
+ * @param ctx - the context to run iterator steps in
+ * @param done - called once, with the item count and any error
+ * @returns the value to hand the caller in place of `value`
+ */
+export function traceConsumption<T>(
+    value: T,
+    ctx: Context,
+    done: ConsumedCallback,
+): T {
+    let items = 0;
+    let settled = false;
+    const count = () => {
+        items++;
+    };
+    const settle = (error?: unknown) => {
+        if (!settled) {
+            settled = true;
+            done(items, error);
+        }
+    };
+
+    if (isReadable(value)) {
+        watchStream(value, count, settle);
+
+        return value;
+    }
+
+    const key = isAsyncIterable(value) ? Symbol.asyncIterator : Symbol.iterator;
+
+    if (typeof (value as any).next === 'function') {
+        return proxyIterator(value, ctx, count, settle);
+    }
+
+    // An iterable that is not itself an iterator: trace the iterator it hands
+    // out.
+    return new Proxy(value as any, {
+        get(target, prop, receiver) {
+            const member = Reflect.get(target, prop, target);
+
+            if (prop !== key || typeof member !== 'function') {
+                return forward(target, member, receiver);
+            }
+
+            return (...args: any[]) =>
+                proxyIterator(member.apply(target, args), ctx, count, settle);
+        },
+        set: (target, prop, value) => Reflect.set(target, prop, value),
+    });
+}
+
+/**
+ * Wraps an iterator's `next`, `return` and `throw`, counting the items they
+ * yield and settling when one reports `done` or throws.
+ */
+function proxyIterator(
+    iterator: any,
+    ctx: Context,
+    count: () => void,
+    settle: (error?: unknown) => void,
+): any {
+    const observe = (step: IteratorResult<unknown>) => {
+        if (step?.done) {
+            settle();
+        } else {
+            count();
+        }
+
+        return step;
+    };
+    const fail = (err: unknown) => {
+        settle(err);
+
+        throw err;
+    };
+    const steps: Record<string | symbol, (...args: any[]) => any> = {};
+
+    for (const name of ['next', 'return', 'throw']) {
+        steps[name] = (...args: any[]) => {
+            let step: any;
+
+            try {
+                step = context.with(ctx, () => iterator[name](...args));
+            } catch (err) {
+                fail(err);
+            }
+
+            return typeof step?.then === 'function'
+                ? step.then(observe, fail)
+                : observe(step);
+        };
+    }
+
+    return new Proxy(iterator, {
+        get(target, prop, receiver) {
+            const member = Reflect.get(target, prop, target);
+
+            return typeof member === 'function' && prop in steps
+                ? steps[prop]
+                : forward(target, member, receiver);
+        },
+        set: (target, prop, value) => Reflect.set(target, prop, value),
+    });
+}
+
+/**
+ * Hands out a member of a proxied value. Methods run on the value itself, not
+ * the proxy, so they still reach its `#private` fields; one that returns the
+ * value — an iterator's `[Symbol.asyncIterator]()`, a chainable setter —
+ * returns the proxy instead, so the caller keeps the traced one.
+ */
+function forward(target: any, member: unknown, proxy: any): unknown {
+    if (typeof member !== 'function') {
+        return member;
+    }
+
+    return function (this: unknown, ...args: any[]) {
+        const result = member.apply(this === proxy ? target : this, args);
+
+        return result === target ? proxy : result;
+    };
+}
+
+/**
+ * Observes a stream's `data`, `end`, `error` and `close` events through its
+ * `emit`. A `close` with no `end` before it means the stream was destroyed;
+ * that ends the watch without an error, as nothing failed.
+ */
+function watchStream(
+    stream: any,
+    count: () => void,
+    settle: (error?: unknown) => void,
+): void {
+    const emit = stream.emit;
+
+    stream.emit = function (event: string | symbol, ...args: any[]) {
+        if (event === 'data') {
+            count();
+        } else if (event === 'error') {
+            settle(args[0]);
+        } else if (event === 'end' || event === 'close') {
+            settle();
+        }
+
+        return emit.call(this, event, ...args);
+    };
+}
+
+function isReadable(value: any): boolean {
+    return (
+        !!value &&
+        typeof value.pipe === 'function' &&
+        typeof value.read === 'function' &&
+        typeof value.emit === 'function'
+    );
+}
+
+function isAsyncIterable(value: any): boolean {
+    return !!value && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+// Generators only: they do their work as they are iterated. Other synchronous
+// iterators — an array's, a Map's — have no `throw`.
+function isGenerator(value: any): boolean {
+    return (
+        !!value &&
+        typeof value === 'object' &&
+        typeof value.next === 'function' &&
+        typeof value.throw === 'function' &&
+        typeof value[Symbol.iterator] === 'function'
+    );
+}
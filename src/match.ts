@@ -0,0 +1,98 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { diag } from '@opentelemetry/api';
+import { type IMQRPCRequest } from './imq/types.js';
+import { type IgnoreRule, type ImqueueInstrumentationConfig } from './types.js';
+
+/**
+ * A name pattern: an exact string, or a regular expression tested against the
+ * name.
+ */
+export type NamePattern = string | RegExp;
+
+/**
+ * Whether a name matches any of the given patterns. Strings compare exactly,
+ * regular expressions are tested.
+ *
+ * @param patterns - patterns to try, in order
+ * @param name - the service, method or key name to check
+ * @returns `true` as soon as one pattern matches
+ */
+export function matchesAny(
+    patterns: readonly NamePattern[],
+    name: string,
+): boolean {
+    return patterns.some(pattern =>
+        // `search()` rather than `test()`: it ignores `lastIndex`, so a global
+        // regular expression gives the same answer on every call.
+        typeof pattern === 'string'
+            ? pattern === name
+            : name.search(pattern) !== -1,
+    );
+}
+
+/**
+ * Whether a call matches the `ignoreServices` or `ignoreMethods` rules of the
+ * config. A predicate that throws counts as no match — when a rule is broken
+ * the call is traced rather than silently dropped.
+ *
+ * @param config - the instrumentation config holding the rules
+ * @param serviceName - the service being called or handling the call
+ * @param req - the IMQ request
+ * @returns `true` when the call should not be traced
+ */
+export function isIgnored(
+    config: ImqueueInstrumentationConfig,
+    serviceName: string,
+    req: IMQRPCRequest,
+): boolean {
+    return (
+        matchesRule(config.ignoreServices, serviceName, serviceName, req) ||
+        matchesRule(config.ignoreMethods, req.method, serviceName, req)
+    );
+}
+
+/** Whether any of the rules matches, patterns being tested against `name`. */
+function matchesRule(
+    rules: IgnoreRule | IgnoreRule[] | undefined,
+    name: string,
+    serviceName: string,
+    req: IMQRPCRequest,
+): boolean {
+    if (rules === undefined) {
+        return false;
+    }
+
+    return (Array.isArray(rules) ? rules : [rules]).some(rule => {
+        if (typeof rule !== 'function') {
+            return matchesAny([rule], name);
+        }
+
+        try {
+            return rule(serviceName, req.method, req);
+        } catch (err) {
+            diag.error('ignore rule failed', err);
+
+            return false;
+        }
+    });
+}
@@ -0,0 +1,167 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import {
+    type Attributes,
+    type Counter,
+    type Histogram,
+    type Meter,
+} from '@opentelemetry/api';
+import { MetricNames, TraceKind } from './enums/index.js';
+
+/** Which message of a call a payload size is for. */
+export type PayloadKind = 'request' | 'response';
+
+type PayloadSizeKey = `${TraceKind}.${PayloadKind}`;
+
+/** Metric attribute carrying whether the call succeeded: `'ok'`/`'error'`. */
+const OUTCOME = 'imq.outcome';
+
+/**
+ * The RPC metric instruments of one meter: a duration histogram plus request
+ * and error counters per side of the call.
+ *
+ * @remarks
+ * Instruments are bound to the meter they were created from, so a new meter
+ * provider means a new instance — which is why the instrumentation rebuilds
+ * this from `_updateMetricInstruments()` rather than holding one forever.
+ */
+export class RpcMetrics {
+    private readonly duration: Record<TraceKind, Histogram>;
+    private readonly requests: Record<TraceKind, Counter>;
+    private readonly errors: Record<TraceKind, Counter>;
+    private readonly queueWait: Histogram;
+    private readonly sizes: Partial<Record<PayloadSizeKey, Histogram>>;
+
+    /**
+     * @param meter - meter to create the instruments with
+     */
+    constructor(meter: Meter) {
+        this.duration = {
+            [TraceKind.CLIENT]: meter.createHistogram(
+                MetricNames.RPC_CLIENT_DURATION,
+                {
+                    description: 'Duration of outbound IMQ calls',
+                    unit: 'ms',
+                },
+            ),
+            [TraceKind.SERVER]: meter.createHistogram(
+                MetricNames.RPC_SERVER_DURATION,
+                {
+                    description: 'Duration of inbound IMQ calls',
+                    unit: 'ms',
+                },
+            ),
+        };
+        this.requests = {
+            [TraceKind.CLIENT]: meter.createCounter(
+                MetricNames.RPC_CLIENT_REQUESTS,
+                { description: 'Outbound IMQ calls completed' },
+            ),
+            [TraceKind.SERVER]: meter.createCounter(
+                MetricNames.RPC_SERVER_REQUESTS,
+                { description: 'Inbound IMQ calls completed' },
+            ),
+        };
+        this.errors = {
+            [TraceKind.CLIENT]: meter.createCounter(
+                MetricNames.RPC_CLIENT_ERRORS,
+                { description: 'Outbound IMQ calls that failed' },
+            ),
+            [TraceKind.SERVER]: meter.createCounter(
+                MetricNames.RPC_SERVER_ERRORS,
+                { description: 'Inbound IMQ calls that failed' },
+            ),
+        };
+        this.queueWait = meter.createHistogram(
+            MetricNames.RPC_SERVER_QUEUE_WAIT,
+            {
+                description: 'Time inbound IMQ calls waited in the queue',
+                unit: 'ms',
+            },
+        );
+        this.sizes = {
+            [`${TraceKind.CLIENT}.request`]: meter.createHistogram(
+                MetricNames.RPC_CLIENT_REQUEST_SIZE,
+                { description: 'Size of outbound IMQ requests', unit: 'By' },
+            ),
+            [`${TraceKind.CLIENT}.response`]: meter.createHistogram(
+                MetricNames.RPC_CLIENT_RESPONSE_SIZE,
+                { description: 'Size of IMQ responses received', unit: 'By' },
+            ),
+            [`${TraceKind.SERVER}.response`]: meter.createHistogram(
+                MetricNames.RPC_SERVER_RESPONSE_SIZE,
+                { description: 'Size of IMQ responses sent', unit: 'By' },
+            ),
+        };
+    }
+
+    /**
+     * Records one completed call.
+     *
+     * @param kind - which side of the call this process was on
+     * @param attributes - labels identifying the call — service and method
+     * @param duration - how long the call took, in milliseconds
+     * @param failed - whether the call ended in an error
+     */
+    public record(
+        kind: TraceKind,
+        attributes: Attributes,
+        duration: number,
+        failed: boolean,
+    ): void {
+        const labels = { ...attributes, [OUTCOME]: failed ? 'error' : 'ok' };
+
+        this.duration[kind].record(duration, labels);
+        this.requests[kind].add(1, labels);
+
+        if (failed) {
+            this.errors[kind].add(1, labels);
+        }
+    }
+
+    /**
+     * Records how long an inbound call waited in the queue.
+     *
+     * @param attributes - labels identifying the call — service and method
+     * @param wait - the wait, in milliseconds
+     */
+    public recordQueueWait(attributes: Attributes, wait: number): void {
+        this.queueWait.record(wait, attributes);
+    }
+
+    /**
+     * Records the size of a request or response.
+     *
+     * @param kind - which side of the call this process was on
+     * @param payload - which message was measured
+     * @param attributes - labels identifying the call — service and method
+     * @param size - the serialized size, in bytes
+     */
+    public recordSize(
+        kind: TraceKind,
+        payload: PayloadKind,
+        attributes: Attributes,
+        size: number,
+    ): void {
+        this.sizes[`${kind}.${payload}`]?.record(size, attributes);
+    }
+}
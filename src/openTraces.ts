@@ -0,0 +1,91 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type OpenTrace } from './types.js';
+
+/** An open manual span as tracked — what is listed, plus the bookkeeping. */
+export interface TrackedTrace extends Omit<OpenTrace, 'age'> {
+    /** Pending TTL expiry, if a TTL applies. */
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * The manual spans started and not ended yet, from `traceStart` and
+ * `startTrace` alike.
+ *
+ * @remarks
+ * As with in-flight RPC calls, taking a trace out is what claims it: whichever
+ * of its own end or its TTL comes first ends the span, and the other finds
+ * nothing.
+ */
+export class OpenTraceRegistry {
+    private readonly traces = new Set<TrackedTrace>();
+
+    /**
+     * Starts tracking a span.
+     *
+     * @param trace - the span and its name
+     * @param ttl - milliseconds it may stay open; unlimited if not positive
+     * @param onExpire - called with the trace, already taken out, if the TTL
+     *                   expires first
+     */
+    public add(
+        trace: TrackedTrace,
+        ttl: number | undefined,
+        onExpire: (trace: TrackedTrace) => void,
+    ): void {
+        if (ttl && ttl > 0) {
+            trace.timer = setTimeout(() => {
+                if (this.take(trace)) {
+                    onExpire(trace);
+                }
+            }, ttl);
+            // A leak detector must not keep the process alive.
+            trace.timer.unref();
+        }
+
+        this.traces.add(trace);
+    }
+
+    /**
+     * Stops tracking a span.
+     *
+     * @returns whether it was still tracked — `false` once taken, by its end or
+     *          its TTL
+     */
+    public take(trace: TrackedTrace): boolean {
+        clearTimeout(trace.timer);
+
+        return this.traces.delete(trace);
+    }
+
+    /** Snapshots the open spans, oldest first. */
+    public list(): OpenTrace[] {
+        const now = Date.now();
+
+        return [...this.traces].map(({ name, span, startTime }) => ({
+            name,
+            span,
+            startTime,
+            age: now - startTime,
+        }));
+    }
+}
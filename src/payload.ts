@@ -0,0 +1,111 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { matchesAny } from './match.js';
+import { type PayloadCaptureOptions } from './types.js';
+
+const DEFAULT_MAX_BYTES = 1024;
+const DEFAULT_REDACT_KEYS = [
+    /passw(or)?d/i,
+    /token/i,
+    /secret/i,
+    /authori[sz]ation/i,
+    /api[-_]?key/i,
+];
+const REDACTED = '[REDACTED]';
+const UNSERIALIZABLE = '[unserializable]';
+const TRUNCATED = '…';
+
+/**
+ * Whether payloads of this call should be captured under the given options —
+ * `false` when capture is off, or the call is not on the allow-lists.
+ */
+export function shouldCapturePayload(
+    options: PayloadCaptureOptions | undefined,
+    serviceName: string,
+    method: string,
+): options is PayloadCaptureOptions {
+    return (
+        !!options &&
+        (!options.services || matchesAny(options.services, serviceName)) &&
+        (!options.methods || matchesAny(options.methods, method))
+    );
+}
+
+/**
+ * Serializes a captured payload to JSON for a span attribute, replacing the
+ * values of redacted keys at any depth and truncating the result to the byte
+ * limit. Never throws: a value JSON cannot represent comes out as a marker.
+ */
+export function serializePayload(
+    value: unknown,
+    options: PayloadCaptureOptions,
+): string {
+    const redactKeys = options.redactKeys || DEFAULT_REDACT_KEYS;
+    let json: string | undefined;
+
+    try {
+        json = JSON.stringify(value, (key, item) =>
+            key && matchesAny(redactKeys, key) ? REDACTED : item,
+        );
+    } catch {
+        return UNSERIALIZABLE;
+    }
+
+    return truncate(
+        json === undefined ? String(value) : json,
+        options.maxBytes ?? DEFAULT_MAX_BYTES,
+    );
+}
+
+/**
+ * Size of a value serialized to JSON, in bytes of UTF-8 — the way it travels
+ * in an IMQ message. `undefined` for a value JSON cannot represent.
+ */
+export function payloadSize(value: unknown): number | undefined {
+    try {
+        const json = JSON.stringify(value);
+
+        return json === undefined ? undefined : Buffer.byteLength(json);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Cuts a string to at most `maxBytes` of UTF-8, marking the cut — the marker
+ * counts towards the limit. A multi-byte character split by the cut is dropped
+ * rather than left half-encoded.
+ */
+export function truncate(text: string, maxBytes: number): string {
+    const bytes = Buffer.from(text);
+
+    if (bytes.length <= maxBytes) {
+        return text;
+    }
+
+    return (
+        bytes
+            .subarray(0, Math.max(0, maxBytes - Buffer.byteLength(TRUNCATED)))
+            .toString('utf8')
+            .replace(/\uFFFD+$/, '') + TRUNCATED
+    );
+}
@@ -0,0 +1,59 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { diag } from '@opentelemetry/api';
+import { type SpanNameFormatter, type SpanNameInfo } from './types.js';
+
+/**
+ * The built-in naming: `imq.request`, `imq.response` or `method.call`, with the
+ * operation carried by the `resource.name` attribute only.
+ */
+export const defaultSpanName: SpanNameFormatter = info => info.defaultName;
+
+/**
+ * Names each span after the operation, gRPC style — `Service/method` for an RPC,
+ * `ClassName/methodName` for a `traced` method — so trace UIs list and aggregate
+ * every operation separately.
+ */
+export const serviceMethodSpanName: SpanNameFormatter = info =>
+    `${info.service}/${info.method}`;
+
+/**
+ * Applies a span name formatter, falling back to the default name if there is
+ * none, or if it throws or returns an empty name — a broken formatter must not
+ * cost the span.
+ */
+export function formatSpanName(
+    formatter: SpanNameFormatter | undefined,
+    info: SpanNameInfo,
+): string {
+    if (!formatter) {
+        return info.defaultName;
+    }
+
+    try {
+        return formatter(info) || info.defaultName;
+    } catch (err) {
+        diag.error('spanNameFormatter failed', err);
+
+        return info.defaultName;
+    }
+}
@@ -0,0 +1,51 @@
+/*!
+ * I'm Queue Software Project
+ * Copyright (C) 2025  imqueue.com <support@imqueue.com>
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ *
+ * If you want to use this code in a closed source (commercial) project, you can
+ * purchase a proprietary commercial license. Please contact us at
+ * <support@imqueue.com> to get commercial licensing options.
+ */
+import { type Span } from '@opentelemetry/api';
+import { type IMQRPCRequest } from './imq/types.js';
+
+/**
+ * The span of each request being traced, on either side of the call.
+ *
+ * @remarks
+ * Held here rather than on the request itself: a property on the request would
+ * travel over the wire unless `toJSON` were replaced to drop it, which costs a
+ * copy of every request and clobbers any `toJSON` the request already has. Keys
+ * are weak, so an entry lives exactly as long as its request.
+ */
+const requestSpans = new WeakMap<IMQRPCRequest, Span>();
+
+/**
+ * The span the instrumentation started for an IMQ request — the `imq.request`
+ * span on the client, the `imq.response` span on the service — for hooks and
+ * handlers that want to annotate it.
+ *
+ * @param req - the request, as passed to the `@imqueue/rpc` hooks
+ * @returns the span, or `undefined` if the request is not being traced
+ */
+export function getRequestSpan(req: IMQRPCRequest): Span | undefined {
+    return requestSpans.get(req);
+}
+
+/** Records the span started for a request. */
+export function setRequestSpan(req: IMQRPCRequest, span: Span): void {
+    requestSpans.set(req, span);
+}
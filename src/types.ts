@@ -19,7 +19,25 @@
  * purchase a proprietary commercial license. Please contact us at
  * <support@imqueue.com> to get commercial licensing options.
  */
-import { TraceKind } from './enums/index.js';
+import {
+    type Attributes,
+    type Context,
+    type Span,
+    type SpanStatus,
+    type TextMapPropagator,
+    type TimeInput,
+} from '@opentelemetry/api';
+import {
+    type InstrumentationConfig,
+    type SemconvStability,
+} from '@opentelemetry/instrumentation';
+import { type SpanNames, TraceKind } from './enums/index.js';
+import {
+    type IMQClient,
+    type IMQRPCRequest,
+    type IMQRPCResponse,
+} from './imq/types.js';
+import { type NamePattern } from './match.js';
 
 /**
  * Options for the `traced` method decorator. Every field is optional at the call
@@ -48,16 +66,528 @@ export interface TracedOptions {
      * not affect where spans are exported.
      */
     tracerName?: string;
+
+    /**
+     * Names the spans the decorator creates, from the class and method name.
+     * Defaults to the fixed `method.call`; pass `serviceMethodSpanName` for
+     * `ClassName/methodName`.
+     */
+    spanNameFormatter?: SpanNameFormatter;
+
+    /**
+     * Derives attributes from the call's arguments — an order ID, say. Called
+     * once the span has started, before the method runs. Values may be any
+     * OpenTelemetry attribute value: strings, numbers, booleans or arrays.
+     */
+    argsToAttributes?: (args: any[]) => Attributes | undefined;
+
+    /**
+     * Derives attributes from what the method returned — the awaited value,
+     * for a method returning a promise — such as the number of rows found.
+     * Not called when the method throws.
+     */
+    resultToAttributes?: (result: any) => Attributes | undefined;
+
+    /**
+     * Picks out errors that are an expected outcome rather than a failure —
+     * a "not found", a validation error. They are still recorded on the span,
+     * but do not set `ERROR` status. The error is re-thrown either way.
+     */
+    isExpectedError?: ExpectedErrorPredicate;
+}
+
+/**
+ * The decorator `traced()` returns. It accepts both decorator protocols, so the
+ * same `@traced()` works whether the project compiles standard (TC39)
+ * decorators or sets `experimentalDecorators`.
+ */
+export interface TracedDecorator {
+    /** Standard decorator form: returns the method wrapped. */
+    <This, Args extends any[], Return>(
+        value: (this: This, ...args: Args) => Return,
+        context: ClassMethodDecoratorContext<
+            This,
+            (this: This, ...args: Args) => Return
+        >,
+    ): (this: This, ...args: Args) => Return;
+
+    /** Legacy (`experimentalDecorators`) form: rewrites the descriptor. */
+    (
+        target: any,
+        methodName: string | symbol,
+        descriptor: TypedPropertyDescriptor<(...args: any[]) => any>,
+    ): void;
+}
+
+/**
+ * Names a method for `tracedClass`'s `include`/`exclude` lists: an exact name,
+ * a regular expression tested against string names, or the symbol itself.
+ */
+export type MethodPattern = NamePattern | symbol;
+
+/**
+ * Options for the `tracedClass` decorator: defaults for every method it traces,
+ * plus which methods to trace.
+ */
+export interface TracedClassOptions extends Partial<TracedOptions> {
+    /** Trace only the methods matching one of these. All, when omitted. */
+    include?: MethodPattern[];
+
+    /** Never trace the methods matching one of these. */
+    exclude?: MethodPattern[];
+
+    /** Trace static methods too. Defaults to `false`. */
+    statics?: boolean;
+
+    /**
+     * Per-method options, merged over the class-wide ones — to trace one method
+     * as `TraceKind.CLIENT`, say, or tag it differently.
+     */
+    methods?: Record<string | symbol, Partial<TracedOptions>>;
 }
 
+/**
+ * The decorator `tracedClass()` returns, usable as a standard (TC39) or a legacy
+ * class decorator.
+ */
+export type TracedClassDecorator = <
+    T extends abstract new (...args: any) => any,
+>(
+    target: T,
+    context?: ClassDecoratorContext<T>,
+) => void;
+
 /**
  * Span attributes as a flat string map.
  *
  * @remarks
  * Values are `string` only — deliberately narrower than OpenTelemetry's own
  * attribute type, which also permits numbers, booleans and arrays. Convert
- * before passing: `{ 'batch.size': String(rows.length) }`.
+ * before passing: `{ 'batch.size': String(rows.length) }`, or — on a `traced`
+ * method — compute the value per call with `argsToAttributes` or
+ * `resultToAttributes`, which take any attribute value.
  */
 export interface TraceAttributes {
     [name: string]: string;
 }
+
+/** How to start a manual span — the options `traceStart` takes. */
+export interface TraceStartOptions {
+    /**
+     * Context to start the span in, so it becomes a child of the span active
+     * there. Defaults to the active context.
+     */
+    parent?: Context;
+
+    /**
+     * When the work began, for work timed elsewhere — a job's enqueue time,
+     * say. Defaults to now.
+     */
+    startTime?: TimeInput;
+
+    /**
+     * Milliseconds the span may stay open. When the time is up it is ended
+     * anyway, marked `leaked=true`, and a warning is logged through the
+     * OpenTelemetry diag logger — a span started on a path that forgot to end
+     * it is found instead of lost. Defaults to the `setTraceTtl()` value; off
+     * when neither is set.
+     */
+    ttl?: number;
+}
+
+/** Options for `startTrace` and `withTrace`. */
+export interface TraceOptions extends TraceStartOptions {
+    /** Attributes to set on the span at creation. */
+    attributes?: Attributes;
+
+    /** Tracer to create the span with, `'basic'` when omitted. */
+    tracerName?: string;
+}
+
+/** How to end a manual span — what it achieved, and when. */
+export interface TraceEndOptions {
+    /** Final attributes to set before the span ends, such as a row count. */
+    attributes?: Attributes;
+
+    /**
+     * The error the work failed with. Recorded the way a failing `traced`
+     * method's is: as an exception event and `error.message`, with `ERROR`
+     * status.
+     */
+    error?: unknown;
+
+    /**
+     * Status to end with. Overrides the `ERROR` status an `error` sets, and is
+     * otherwise left unset.
+     */
+    status?: SpanStatus;
+
+    /** When the work finished, for work timed elsewhere. Defaults to now. */
+    endTime?: TimeInput;
+}
+
+/** A manual span not ended yet, as listed by `openTraces()`. */
+export interface OpenTrace {
+    /** The name the span was started under. */
+    readonly name: string;
+
+    /** The span, still open. */
+    readonly span: Span;
+
+    /** When the span was started, in milliseconds since the epoch. */
+    readonly startTime: number;
+
+    /** How long the span had been open when listed, in milliseconds. */
+    readonly age: number;
+}
+
+/**
+ * A span opened by `startTrace`. It belongs to the caller that holds it, so any
+ * number may be open under one name at once.
+ */
+export interface TraceHandle {
+    /** The span itself, for attributes and events. */
+    readonly span: Span;
+
+    /**
+     * The context the span was started in, with the span set on it. Pass it to
+     * `context.with` — or use {@link TraceHandle.run} — to parent other spans
+     * under this one.
+     */
+    readonly context: Context;
+
+    /** Runs `fn` with this span active, returning what `fn` returns. */
+    run<T>(fn: () => T): T;
+
+    /** Ends the span. Calling it again does nothing. */
+    end(options?: TraceEndOptions): void;
+}
+
+/**
+ * Decides whether an error is an expected business outcome, to be recorded
+ * without failing the span. Gets whatever was thrown, or the `error` of an IMQ
+ * response.
+ */
+export type ExpectedErrorPredicate = (error: unknown) => boolean;
+
+/**
+ * Maps an IMQ error response to extra span attributes — a category, say, so
+ * validation failures and infrastructure failures can be told apart. Gets the
+ * error's `code`, if it has one, and the error itself.
+ */
+export type ImqueueErrorAttributesMapper = (
+    code: string | undefined,
+    error: unknown,
+) => Attributes | undefined;
+
+/**
+ * What a span name is built from — the same shape for RPC spans and `traced`
+ * spans, so one formatter can serve both.
+ */
+export interface SpanNameInfo {
+    /** Which side of the call the span describes. */
+    kind: TraceKind;
+
+    /**
+     * The IMQ service being called or handling the call, or the class name of a
+     * `traced` method.
+     */
+    service: string;
+
+    /** The remote method, or the name of the `traced` method. */
+    method: string;
+
+    /** The name the span gets when no formatter is configured. */
+    defaultName: SpanNames;
+}
+
+/**
+ * Builds a span name. Returning an empty string, or throwing, falls back to
+ * {@link SpanNameInfo.defaultName}.
+ */
+export type SpanNameFormatter = (info: SpanNameInfo) => string;
+
+/**
+ * Called with every RPC span right after it starts — the CLIENT span in
+ * `beforeCall`, the SERVER span in `wrapCall` — to add attributes of your own.
+ *
+ * @param span - the span just started for this call
+ * @param req - the IMQ request being sent or handled
+ * @param client - the client issuing the call, or the service handling it
+ */
+export type ImqueueRequestHook = (
+    span: Span,
+    req: IMQRPCRequest,
+    client: IMQClient,
+) => void;
+
+/**
+ * Called with every RPC span right before it ends — on the client once the
+ * response arrives, on the service once the handler has settled.
+ *
+ * @param span - the span about to end
+ * @param req - the IMQ request the span covers
+ * @param res - the response, when there is one to read
+ */
+export type ImqueueResponseHook = (
+    span: Span,
+    req: IMQRPCRequest,
+    res?: IMQRPCResponse,
+) => void;
+
+/**
+ * What RPC payloads to record on spans, and how. Capture is off unless this is
+ * given; everything in it is optional.
+ *
+ * @remarks
+ * Payloads are recorded as JSON strings — the request arguments as
+ * `imq.request.args` on both spans, the result as `imq.response.data` — taken
+ * from the same serialized shape the request goes over the wire in. They can
+ * carry personal data: narrow capture with the allow-lists, and check that the
+ * redaction list covers your field names before turning this on in production.
+ */
+export interface PayloadCaptureOptions {
+    /** Record the request arguments. Defaults to `true`. */
+    arguments?: boolean;
+
+    /** Record the response data. Defaults to `true`. */
+    results?: boolean;
+
+    /**
+     * Longest a recorded payload may be, in bytes of UTF-8. Longer ones are cut
+     * and end in `…`. Defaults to 1024.
+     */
+    maxBytes?: number;
+
+    /**
+     * Keys whose values are replaced by `[REDACTED]`, at any depth. Replaces
+     * the default list, which matches password, token, secret, authorization
+     * and API key fields.
+     */
+    redactKeys?: NamePattern[];
+
+    /** Only capture calls to or from these services. All, when omitted. */
+    services?: NamePattern[];
+
+    /** Only capture calls to these methods. All, when omitted. */
+    methods?: NamePattern[];
+}
+
+/**
+ * How RPC payload sizes are recorded: the serialized request on the client
+ * span as `imq.request.size`, and the serialized response on both spans as
+ * `imq.response.size`, in bytes of UTF-8. Sizes are not recorded unless this
+ * is given.
+ *
+ * @remarks
+ * The hooks run before `@imqueue/rpc` serializes a message, so each payload
+ * measured is serialized once more just to size it — a cost that grows with
+ * the payload, largest on exactly the calls this is meant to find.
+ */
+export interface PayloadSizeOptions {
+    /** Record the sizes as span attributes. Defaults to `true`. */
+    attributes?: boolean;
+
+    /**
+     * Record the sizes in the `rpc.client.request.size`,
+     * `rpc.client.response.size` and `rpc.server.response.size` histograms.
+     * Defaults to `false`.
+     */
+    metrics?: boolean;
+
+    /**
+     * Size in bytes above which a payload adds an `imq.payload.large` event to
+     * its span. No events when omitted.
+     */
+    largeThreshold?: number;
+}
+
+/**
+ * Decides from the whole call whether it should go untraced.
+ *
+ * @param serviceName - the service being called or handling the call
+ * @param method - the remote method
+ * @param req - the IMQ request
+ * @returns `true` to skip tracing the call
+ */
+export type IgnoreMatcher = (
+    serviceName: string,
+    method: string,
+    req: IMQRPCRequest,
+) => boolean;
+
+/**
+ * One `ignoreServices`/`ignoreMethods` rule: a name pattern, or a predicate over
+ * the call.
+ */
+export type IgnoreRule = NamePattern | IgnoreMatcher;
+
+/**
+ * A client call that has been sent and has not been answered yet, as listed by
+ * `ImqueueInstrumentation.inFlightCalls()`.
+ */
+export interface InFlightCall {
+    /** The `imq.request` span, still open. */
+    readonly span: Span;
+
+    /** The service called. */
+    readonly serviceName: string;
+
+    /** The remote method called. */
+    readonly method: string;
+
+    /** When the call was sent, in milliseconds since the epoch. */
+    readonly startTime: number;
+
+    /** How long the call had been waiting when listed, in milliseconds. */
+    readonly age: number;
+}
+
+/**
+ * What `ImqueueInstrumentation.patch()` does with an option singleton another
+ * instrumentation has already patched: `warn` logs and chains onto its hooks,
+ * `skip` logs and leaves them alone, `override` replaces them with its own,
+ * chained onto the hooks that were there before either.
+ */
+export type PatchConflictPolicy = 'warn' | 'skip' | 'override';
+
+/**
+ * Configuration for `ImqueueInstrumentation`: the standard OpenTelemetry
+ * instrumentation options plus the ones specific to IMQ.
+ */
+export interface ImqueueInstrumentationConfig extends InstrumentationConfig {
+    /**
+     * Customizes `imq.request`/`imq.response` spans as they start. A hook that
+     * throws is logged and ignored — it never fails the call it observes.
+     */
+    requestHook?: ImqueueRequestHook;
+
+    /**
+     * Customizes `imq.request`/`imq.response` spans before they end, e.g. to
+     * flag something about the result. Same error handling as
+     * {@link ImqueueInstrumentationConfig.requestHook}.
+     */
+    responseHook?: ImqueueResponseHook;
+
+    /**
+     * Which attribute keys RPC spans carry: `OLD` for the legacy
+     * `AttributeNames` only, `STABLE` for the OpenTelemetry RPC/messaging
+     * semantic conventions (`SemconvAttributeNames`) only, `DUPLICATE` for
+     * both. Defaults to `DUPLICATE`, so dashboards built on either keep
+     * working while you migrate; switch to `STABLE` once nothing reads the
+     * legacy keys.
+     */
+    semconvStability?: SemconvStability;
+
+    /**
+     * Names `imq.request`/`imq.response` spans. Defaults to those fixed names;
+     * pass `serviceMethodSpanName` for `Service/method`, so trace UIs list
+     * each operation separately.
+     */
+    spanNameFormatter?: SpanNameFormatter;
+
+    /**
+     * Record request arguments and response data on RPC spans — off by
+     * default. See {@link PayloadCaptureOptions}.
+     */
+    capturePayload?: PayloadCaptureOptions;
+
+    /**
+     * Record request and response sizes — off by default, as each payload is
+     * then serialized one more time. Given, sizes go on spans as attributes;
+     * see {@link PayloadSizeOptions} for histograms and oversized-payload
+     * events.
+     */
+    payloadSize?: PayloadSizeOptions;
+
+    /**
+     * Services whose calls go untraced, on both the client and the service
+     * side — names, patterns, or predicates over the call. Ignored calls get no
+     * span and no metrics, but still pass the caller's trace context on, so a
+     * trace through them stays joined.
+     */
+    ignoreServices?: IgnoreRule | IgnoreRule[];
+
+    /**
+     * Methods whose calls go untraced — health checks, `describe`, pollers.
+     * Same forms and behaviour as
+     * {@link ImqueueInstrumentationConfig.ignoreServices}.
+     */
+    ignoreMethods?: IgnoreRule | IgnoreRule[];
+
+    /**
+     * The `req.metadata` key trace context is injected under and extracted
+     * from. Defaults to `'clientSpan'`; every service in a call chain must
+     * agree on it, or list it in
+     * {@link ImqueueInstrumentationConfig.fallbackCarrierKeys}.
+     */
+    carrierKey?: string;
+
+    /**
+     * Keys the service side falls back to, in order, when the request carries
+     * nothing under {@link ImqueueInstrumentationConfig.carrierKey} — so during
+     * a migration, calls from clients still on an old key keep their traces
+     * joined. The client side only ever writes `carrierKey`.
+     */
+    fallbackCarrierKeys?: string[];
+
+    /**
+     * Propagator to inject and extract IMQ trace context with — B3 for a Zipkin
+     * pipeline, say. Defaults to the globally registered propagator.
+     */
+    propagator?: TextMapPropagator;
+
+    /**
+     * Carry the active W3C baggage across IMQ calls — injected with the trace
+     * context on the client, extracted and made active for the handler on the
+     * service. Independent of `propagator`. Defaults to `true`.
+     */
+    propagateBaggage?: boolean;
+
+    /**
+     * Baggage entries to copy onto each `imq.response` span as attributes of
+     * the same name — `tenant.id`, say — so a value set once at the edge
+     * labels every service span in the trace.
+     */
+    baggageAttributes?: string[];
+
+    /**
+     * Milliseconds a client span waits for its response before it is ended
+     * anyway — with `ERROR` status, `imq.timeout=true` and an `imq.timeout`
+     * event — so a call whose reply never comes is still exported. Off by
+     * default; set it above the longest IMQ call timeout you use, or slow
+     * calls will be reported as timed out.
+     */
+    clientSpanTimeout?: number;
+
+    /**
+     * Most client calls awaiting a response to keep track of. When more are
+     * sent, the oldest are ended — with an `imq.evicted` event — and a reply
+     * that comes for one later is ignored. Bounds the memory unanswered calls
+     * hold on to when `clientSpanTimeout` is off. Defaults to 10000.
+     */
+    maxInFlightCalls?: number;
+
+    /**
+     * Picks out RPC errors that are an expected outcome rather than a failure.
+     * Every error is recorded on its span — `error.type`, `error.message` and
+     * an exception event with the stack and `cause` chain — but only the ones
+     * this rejects set `ERROR` status and count as errors in the metrics.
+     */
+    isExpectedError?: ExpectedErrorPredicate;
+
+    /**
+     * Extra attributes for an RPC span whose response is an error, client or
+     * server side, derived from the error code. Set on top of `imq.error.code` and
+     * `imq.error.stack`, which are always recorded.
+     */
+    errorAttributes?: ImqueueErrorAttributesMapper;
+
+    /**
+     * What to do when another instrumentation — a second copy of this package,
+     * say — already owns the `@imqueue/rpc` hooks. Defaults to `'warn'`: log
+     * it and chain on, so calls may be traced twice. See
+     * {@link PatchConflictPolicy}.
+     */
+    onConflict?: PatchConflictPolicy;
+}
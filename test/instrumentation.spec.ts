@@ -18,10 +18,27 @@
 import { before, describe, it, type TestContext } from 'node:test';
 import assert from 'node:assert/strict';
 import { readFileSync } from 'node:fs';
-import { context, trace } from '@opentelemetry/api';
+import {
+    context,
+    diag,
+    metrics,
+    propagation,
+    SpanStatusCode,
+    trace,
+} from '@opentelemetry/api';
 import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
 import { type IMQClient, type IMQRPCRequest } from '../src/imq/types.js';
-import { ImqueueInstrumentation } from '../index.js';
+import {
+    AttributeNames,
+    getRequestSpan,
+    ImqueueInstrumentation,
+    type ImqueueInstrumentationConfig,
+    MetricNames,
+    SemconvAttributeNames,
+    SemconvStability,
+    serviceMethodSpanName,
+    SpanNames,
+} from '../index.js';
 
 const self = JSON.parse(
     readFileSync(new URL('../package.json', import.meta.url), 'utf8'),
@@ -53,7 +70,6 @@ function makeRequest(metadata?: any): IMQRPCRequest {
     return {
         method: 'test-method',
         from: 'client-id',
-        toJSON: () => ({}),
         ...(metadata !== undefined ? { metadata } : {}),
     };
 }
@@ -61,7 +77,9 @@ function makeRequest(metadata?: any): IMQRPCRequest {
 function makeSpan(t: TestContext): any {
     return {
         end: t.mock.fn(),
+        addEvent: t.mock.fn(),
         setAttribute: t.mock.fn(),
+        setAttributes: t.mock.fn(),
         setStatus: t.mock.fn(),
         recordException: t.mock.fn(),
         spanContext: () => ({
@@ -74,10 +92,33 @@ function makeSpan(t: TestContext): any {
 
 // Install a tracer mock BEFORE constructing — the base captures the tracer via
 // trace.getTracer() at construction time.
-function makeInstrumentation(t: TestContext, tracer: any): any {
+function makeInstrumentation(
+    t: TestContext,
+    tracer: any,
+    config?: ImqueueInstrumentationConfig,
+): any {
     t.mock.method(trace, 'getTracer', () => tracer);
 
-    return new ImqueueInstrumentation() as any;
+    return new ImqueueInstrumentation(config) as any;
+}
+
+// Install a meter mock BEFORE constructing, for the same reason; every value
+// recorded on any instrument is collected in order.
+function makeMeter(t: TestContext) {
+    const records: { name: string; value: number; attributes: any }[] = [];
+    const instrument = (name: string) => {
+        const collect = (value: number, attributes: any) =>
+            records.push({ name, value, attributes });
+
+        return { record: collect, add: collect };
+    };
+
+    t.mock.method(metrics, 'getMeter', () => ({
+        createHistogram: instrument,
+        createCounter: instrument,
+    }));
+
+    return records;
 }
 
 const emptyModule = () => ({
@@ -151,6 +192,143 @@ describe('ImqueueInstrumentation', () => {
             assert.equal(rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall, undefined);
         });
 
+        it('chains to hooks the application installed', async (t: TestContext) => {
+            const order: string[] = [];
+            const span = makeSpan(t);
+
+            span.end = t.mock.fn(() => order.push('span.end'));
+
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => (order.push('startSpan'), span),
+            });
+            const rpc = instrumentation.patch({
+                DEFAULT_IMQ_CLIENT_OPTIONS: {
+                    beforeCall: async () => void order.push('app.beforeCall'),
+                    afterCall: async () => void order.push('app.afterCall'),
+                },
+                DEFAULT_IMQ_SERVICE_OPTIONS: {
+                    wrapCall: async (_req: any, _res: any, next: any) => {
+                        order.push('app.wrapCall');
+
+                        return next();
+                    },
+                },
+            });
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                {},
+            );
+
+            assert.deepEqual(order, [
+                'startSpan',
+                'app.beforeCall',
+                'app.afterCall',
+                'span.end',
+            ]);
+
+            order.length = 0;
+
+            const result = await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => {
+                    order.push('handler');
+
+                    return 'result';
+                },
+            );
+
+            assert.equal(result, 'result');
+            assert.deepEqual(order, [
+                'startSpan',
+                'app.wrapCall',
+                'handler',
+                'span.end',
+            ]);
+        });
+
+        it('ends the client span even if the application hook throws', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch({
+                DEFAULT_IMQ_CLIENT_OPTIONS: {
+                    afterCall: async () => {
+                        throw new Error('app hook failed');
+                    },
+                },
+            });
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await assert.rejects(
+                rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {}),
+                /app hook failed/,
+            );
+            assert.equal(span.end.mock.callCount(), 1);
+        });
+
+        it('restores the original hooks exactly on unpatch', (t: TestContext) => {
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const beforeCall = async () => undefined;
+            const rpc = instrumentation.unpatch(
+                instrumentation.patch({
+                    DEFAULT_IMQ_CLIENT_OPTIONS: { beforeCall },
+                    DEFAULT_IMQ_SERVICE_OPTIONS: {},
+                }),
+            );
+
+            assert.deepEqual(rpc.DEFAULT_IMQ_CLIENT_OPTIONS, { beforeCall });
+            assert.deepEqual(rpc.DEFAULT_IMQ_SERVICE_OPTIONS, {});
+        });
+
+        it('is a no-op when patched again', async (t: TestContext) => {
+            const startSpan = t.mock.fn(() => makeSpan(t));
+            const beforeCall = t.mock.fn(async () => undefined);
+            const instrumentation = makeInstrumentation(t, { startSpan });
+            const rpc = { DEFAULT_IMQ_CLIENT_OPTIONS: { beforeCall } };
+
+            instrumentation.patch(rpc);
+
+            const patched = rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall;
+
+            instrumentation.patch(rpc);
+
+            assert.equal(rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall, patched);
+
+            await (rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall as any).call(
+                client,
+                makeRequest(),
+            );
+
+            assert.equal(startSpan.mock.callCount(), 1);
+            assert.equal(beforeCall.mock.callCount(), 1);
+
+            instrumentation.unpatch(rpc);
+
+            assert.equal(rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall, beforeCall);
+        });
+
+        it('leaves option objects it never patched alone', (t: TestContext) => {
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const afterCall = async () => undefined;
+            const rpc = instrumentation.unpatch({
+                DEFAULT_IMQ_CLIENT_OPTIONS: { afterCall },
+            });
+
+            assert.equal(rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall, afterCall);
+        });
+
         it('tolerates missing client/service option objects', (t: TestContext) => {
             const instrumentation = makeInstrumentation(t, {
                 startSpan: () => makeSpan(t),
@@ -161,6 +339,140 @@ describe('ImqueueInstrumentation', () => {
         });
     });
 
+    describe('conflicting installs', () => {
+        // Two instances patching one module, each with its own tracer; the
+        // second one's warnings are collected.
+        function makePair(
+            t: TestContext,
+            config?: ImqueueInstrumentationConfig,
+        ) {
+            const first = t.mock.fn(() => makeSpan(t));
+            const second = t.mock.fn(() => makeSpan(t));
+            const a = makeInstrumentation(t, { startSpan: first });
+            const b = makeInstrumentation(t, { startSpan: second }, config);
+            const warn = t.mock.method(b._diag, 'warn', () => undefined);
+
+            return { a, b, first, second, warn };
+        }
+
+        it('warns and chains onto another instance by default', async (t: TestContext) => {
+            const { a, b, first, second, warn } = makePair(t);
+            const rpc = a.patch({ DEFAULT_IMQ_CLIENT_OPTIONS: {} });
+
+            b.patch(rpc);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                client,
+                makeRequest(),
+            );
+
+            assert.equal(warn.mock.callCount(), 1);
+            assert.match(
+                warn.mock.calls[0].arguments[0],
+                new RegExp(`patched by ${SCOPE_NAME}@${self.version};`),
+            );
+            assert.equal(first.mock.callCount(), 1);
+            assert.equal(second.mock.callCount(), 1);
+        });
+
+        it("ends each chained instance's own client span", async (t: TestContext) => {
+            const spans = [makeSpan(t), makeSpan(t)];
+            const a = makeInstrumentation(t, { startSpan: () => spans[0] });
+            const b = makeInstrumentation(t, { startSpan: () => spans[1] });
+
+            t.mock.method(b._diag, 'warn', () => undefined);
+
+            const rpc = b.patch(a.patch({ DEFAULT_IMQ_CLIENT_OPTIONS: {} }));
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                {},
+            );
+
+            assert.deepEqual(
+                spans.map(span => span.end.mock.callCount()),
+                [1, 1],
+            );
+        });
+
+        it('hands the hooks back to the instance chained onto', async (t: TestContext) => {
+            const { a, b, first, second } = makePair(t);
+            const beforeCall = t.mock.fn(async () => undefined);
+            const rpc = a.patch({ DEFAULT_IMQ_CLIENT_OPTIONS: { beforeCall } });
+
+            b.unpatch(b.patch(rpc));
+            a.unpatch(rpc);
+
+            assert.deepEqual(rpc.DEFAULT_IMQ_CLIENT_OPTIONS, { beforeCall });
+
+            a.patch(rpc);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                client,
+                makeRequest(),
+            );
+
+            assert.equal(first.mock.callCount(), 1);
+            assert.equal(second.mock.callCount(), 0);
+            assert.equal(beforeCall.mock.callCount(), 1);
+        });
+
+        it('leaves the hooks to the owner with skip', (t: TestContext) => {
+            const { a, b, warn } = makePair(t, { onConflict: 'skip' });
+            const rpc = a.patch({ DEFAULT_IMQ_CLIENT_OPTIONS: {} });
+            const { beforeCall } = rpc.DEFAULT_IMQ_CLIENT_OPTIONS;
+
+            b.patch(rpc);
+            b.unpatch(rpc);
+
+            assert.equal(warn.mock.callCount(), 1);
+            assert.equal(rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall, beforeCall);
+        });
+
+        it("replaces the owner's hooks with override", async (t: TestContext) => {
+            const { a, b, first, second } = makePair(t, {
+                onConflict: 'override',
+            });
+            const beforeCall = t.mock.fn(async () => undefined);
+            const rpc = a.patch({ DEFAULT_IMQ_CLIENT_OPTIONS: { beforeCall } });
+
+            b.patch(rpc);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                client,
+                makeRequest(),
+            );
+
+            assert.equal(first.mock.callCount(), 0);
+            assert.equal(second.mock.callCount(), 1);
+            assert.equal(beforeCall.mock.callCount(), 1);
+
+            // the overridden instance no longer owns the hooks to restore
+            a.unpatch(rpc);
+            assert.notEqual(
+                rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall,
+                beforeCall,
+            );
+
+            b.unpatch(rpc);
+            assert.deepEqual(rpc.DEFAULT_IMQ_CLIENT_OPTIONS, { beforeCall });
+        });
+
+        it('does not copy the mark into spread options', (t: TestContext) => {
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const rpc = instrumentation.patch(emptyModule());
+
+            assert.equal(
+                Object.getOwnPropertySymbols({
+                    ...rpc.DEFAULT_IMQ_CLIENT_OPTIONS,
+                }).length,
+                0,
+            );
+        });
+    });
+
     describe('client beforeCall/afterCall', () => {
         it('starts a client span and injects context into metadata', async (t: TestContext) => {
             const span = makeSpan(t);
@@ -171,7 +483,7 @@ describe('ImqueueInstrumentation', () => {
 
             await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
 
-            assert.equal(req.span, span);
+            assert.equal(getRequestSpan(req), span);
             assert.ok(req.metadata && req.metadata.clientSpan);
             assert.equal(startSpan.mock.calls.length, 1);
         });
@@ -193,6 +505,27 @@ describe('ImqueueInstrumentation', () => {
             assert.equal(span.setStatus.mock.calls.length, 1);
         });
 
+        it('keeps the span off the request and leaves its toJSON alone', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const toJSON = () => ({ custom: true });
+            const req = { ...makeRequest(), toJSON };
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+
+            assert.equal(req.toJSON, toJSON);
+            assert.deepEqual(Object.keys(req), [
+                'method',
+                'from',
+                'toJSON',
+                'metadata',
+            ]);
+            assert.equal(getRequestSpan(req), span);
+        });
+
         it('afterCall is a no-op when no span was attached', async (t: TestContext) => {
             const instrumentation = makeInstrumentation(t, {
                 startSpan: () => makeSpan(t),
@@ -233,7 +566,7 @@ describe('ImqueueInstrumentation', () => {
 
             assert.equal(result, 'result');
             assert.equal(activeInsideHandler, span, 'handler sees the span');
-            assert.equal(req.span, span);
+            assert.equal(getRequestSpan(req), span);
             assert.equal(span.end.mock.calls.length, 1);
         });
 
@@ -262,4 +595,1346 @@ describe('ImqueueInstrumentation', () => {
             assert.equal(span.end.mock.calls.length, 1);
         });
     });
+
+    describe('requestHook/responseHook', () => {
+        it('lets the client hooks customize the span', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const requestHook = t.mock.fn();
+            const responseHook = t.mock.fn();
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { requestHook, responseHook },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+            const res = { data: 42 };
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                res,
+            );
+
+            assert.deepEqual(requestHook.mock.calls[0].arguments, [
+                span,
+                req,
+                client,
+            ]);
+            assert.deepEqual(responseHook.mock.calls[0].arguments, [
+                span,
+                req,
+                res,
+            ]);
+        });
+
+        it('lets the service hooks customize the span', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const requestHook = t.mock.fn();
+            const responseHook = t.mock.fn((hookSpan: any) => {
+                assert.equal(hookSpan.end.mock.callCount(), 0);
+            });
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { requestHook, responseHook },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+            const res = {};
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                req,
+                res,
+                async () => 'result',
+            );
+
+            assert.deepEqual(requestHook.mock.calls[0].arguments, [
+                span,
+                req,
+                service,
+            ]);
+            assert.deepEqual(responseHook.mock.calls[0].arguments, [
+                span,
+                req,
+                res,
+            ]);
+            assert.equal(span.end.mock.callCount(), 1);
+        });
+
+        it('never lets a failing hook break the call', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const fail = () => {
+                throw new Error('hook failed');
+            };
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { requestHook: fail, responseHook: fail },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                {},
+            );
+
+            assert.equal(
+                await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                    service,
+                    makeRequest(),
+                    {},
+                    async () => 'result',
+                ),
+                'result',
+            );
+            assert.equal(span.end.mock.callCount(), 2);
+        });
+    });
+
+    describe('semconvStability', () => {
+        async function spanAttributes(
+            t: TestContext,
+            semconvStability?: SemconvStability,
+        ) {
+            const startSpan = t.mock.fn((..._args: any[]) => makeSpan(t));
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                { semconvStability },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                client,
+                makeRequest(),
+            );
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => null,
+            );
+
+            return startSpan.mock.calls.map(
+                call => call.arguments[1].attributes,
+            );
+        }
+
+        it('emits legacy and semconv attributes by default', async (t: TestContext) => {
+            const [clientAttributes, serverAttributes] =
+                await spanAttributes(t);
+
+            assert.equal(
+                clientAttributes[AttributeNames.RESOURCE_NAME],
+                'service-name.test-method',
+            );
+            assert.equal(
+                clientAttributes[SemconvAttributeNames.RPC_SYSTEM],
+                'imqueue',
+            );
+            assert.equal(
+                clientAttributes[
+                    SemconvAttributeNames.MESSAGING_OPERATION_TYPE
+                ],
+                'send',
+            );
+            assert.equal(
+                serverAttributes[
+                    SemconvAttributeNames.MESSAGING_OPERATION_TYPE
+                ],
+                'process',
+            );
+            assert.equal(
+                serverAttributes[SemconvAttributeNames.RPC_SERVICE],
+                'service-name',
+            );
+            assert.equal(
+                serverAttributes[SemconvAttributeNames.RPC_METHOD],
+                'test-method',
+            );
+        });
+
+        it('emits only the legacy attributes when OLD', async (t: TestContext) => {
+            const [attributes] = await spanAttributes(t, SemconvStability.OLD);
+
+            assert.equal(attributes[AttributeNames.COMPONENT], 'imq');
+            assert.equal(
+                attributes[SemconvAttributeNames.RPC_SYSTEM],
+                undefined,
+            );
+        });
+
+        it('emits only the semconv attributes when STABLE', async (t: TestContext) => {
+            const [attributes] = await spanAttributes(
+                t,
+                SemconvStability.STABLE,
+            );
+
+            assert.equal(attributes[AttributeNames.COMPONENT], undefined);
+            assert.equal(
+                attributes[SemconvAttributeNames.MESSAGING_CLIENT_ID],
+                'client-id',
+            );
+        });
+    });
+
+    describe('spanNameFormatter', () => {
+        async function spanNames(
+            t: TestContext,
+            spanNameFormatter?: ImqueueInstrumentationConfig['spanNameFormatter'],
+        ) {
+            const startSpan = t.mock.fn((..._args: any[]) => makeSpan(t));
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                { spanNameFormatter },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                client,
+                makeRequest(),
+            );
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => null,
+            );
+
+            return startSpan.mock.calls.map(call => call.arguments[0]);
+        }
+
+        it('uses the fixed names by default', async (t: TestContext) => {
+            assert.deepEqual(await spanNames(t), [
+                SpanNames.IMQ_REQUEST,
+                SpanNames.IMQ_RESPONSE,
+            ]);
+        });
+
+        it('names spans Service/method with the built-in style', async (t: TestContext) => {
+            assert.deepEqual(await spanNames(t, serviceMethodSpanName), [
+                'service-name/test-method',
+                'service-name/test-method',
+            ]);
+        });
+
+        it('falls back to the fixed names when the formatter throws', async (t: TestContext) => {
+            assert.deepEqual(
+                await spanNames(t, () => {
+                    throw new Error('bad formatter');
+                }),
+                [SpanNames.IMQ_REQUEST, SpanNames.IMQ_RESPONSE],
+            );
+        });
+    });
+
+    describe('metrics', () => {
+        it('records client duration and counts per outcome', async (t: TestContext) => {
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                error: { message: 'boom' },
+            });
+
+            assert.deepEqual(
+                records.map(record => record.name),
+                [
+                    MetricNames.RPC_CLIENT_DURATION,
+                    MetricNames.RPC_CLIENT_REQUESTS,
+                    MetricNames.RPC_CLIENT_ERRORS,
+                ],
+            );
+            assert.ok(records[0].value >= 0);
+            assert.deepEqual(records[0].attributes, {
+                [SemconvAttributeNames.RPC_SYSTEM]: 'imqueue',
+                [SemconvAttributeNames.RPC_SERVICE]: 'service-name',
+                [SemconvAttributeNames.RPC_METHOD]: 'test-method',
+                'imq.outcome': 'error',
+            });
+        });
+
+        it('records server duration without an error count on success', async (t: TestContext) => {
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => null,
+            );
+
+            assert.deepEqual(
+                records.map(record => record.name),
+                [
+                    MetricNames.RPC_SERVER_DURATION,
+                    MetricNames.RPC_SERVER_REQUESTS,
+                ],
+            );
+            assert.equal(records[1].attributes['imq.outcome'], 'ok');
+        });
+
+        it('counts a handler that throws as a server error', async (t: TestContext) => {
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const rpc = instrumentation.patch(emptyModule());
+
+            await assert.rejects(
+                rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                    service,
+                    makeRequest(),
+                    {},
+                    async () => {
+                        throw new Error('handler failed');
+                    },
+                ),
+            );
+
+            assert.equal(records[2].name, MetricNames.RPC_SERVER_ERRORS);
+        });
+    });
+
+    describe('capturePayload', () => {
+        function attributesOf(span: any): Record<string, unknown> {
+            return Object.fromEntries(
+                span.setAttribute.mock.calls.map((call: any) => call.arguments),
+            );
+        }
+
+        async function clientCall(
+            t: TestContext,
+            config: ImqueueInstrumentationConfig,
+            args: any[],
+            data?: unknown,
+        ) {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                config,
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = { ...makeRequest(), args };
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                data,
+            });
+
+            return attributesOf(span);
+        }
+
+        it('captures nothing unless configured', async (t: TestContext) => {
+            const attributes = await clientCall(t, {}, [1], 2);
+
+            assert.equal(
+                attributes[AttributeNames.IMQ_REQUEST_ARGS],
+                undefined,
+            );
+            assert.equal(
+                attributes[AttributeNames.IMQ_RESPONSE_DATA],
+                undefined,
+            );
+        });
+
+        it('captures redacted arguments and the response data', async (t: TestContext) => {
+            const attributes = await clientCall(
+                t,
+                { capturePayload: {} },
+                [{ login: 'neo', password: 'trinity' }],
+                { accessToken: 'x', ok: true },
+            );
+
+            assert.equal(
+                attributes[AttributeNames.IMQ_REQUEST_ARGS],
+                '[{"login":"neo","password":"[REDACTED]"}]',
+            );
+            assert.equal(
+                attributes[AttributeNames.IMQ_RESPONSE_DATA],
+                '{"accessToken":"[REDACTED]","ok":true}',
+            );
+        });
+
+        it('truncates a payload to the byte limit', async (t: TestContext) => {
+            const attributes = await clientCall(
+                t,
+                { capturePayload: { maxBytes: 8, results: false } },
+                ['abcdefghij'],
+                'result',
+            );
+
+            assert.equal(attributes[AttributeNames.IMQ_REQUEST_ARGS], '["abc…');
+            assert.equal(
+                Buffer.byteLength(attributes[AttributeNames.IMQ_REQUEST_ARGS]),
+                8,
+            );
+            assert.equal(
+                attributes[AttributeNames.IMQ_RESPONSE_DATA],
+                undefined,
+            );
+        });
+
+        it('honours the service and method allow-lists', async (t: TestContext) => {
+            const attributes = await clientCall(
+                t,
+                {
+                    capturePayload: {
+                        services: ['service-name'],
+                        methods: [/^other/],
+                    },
+                },
+                [1],
+                2,
+            );
+
+            assert.equal(
+                attributes[AttributeNames.IMQ_REQUEST_ARGS],
+                undefined,
+            );
+        });
+
+        it('captures the handler result on the server span', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { capturePayload: { redactKeys: ['id'] } },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                { ...makeRequest(), args: ['a'] },
+                {},
+                async () => ({ id: 7, name: 'seven' }),
+            );
+
+            const attributes = attributesOf(span);
+
+            assert.equal(attributes[AttributeNames.IMQ_REQUEST_ARGS], '["a"]');
+            assert.equal(
+                attributes[AttributeNames.IMQ_RESPONSE_DATA],
+                '{"id":"[REDACTED]","name":"seven"}',
+            );
+        });
+    });
+
+    describe('ignoreServices/ignoreMethods', () => {
+        it('starts no client span but still propagates the active context', async (t: TestContext) => {
+            const startSpan = t.mock.fn(() => makeSpan(t));
+            const inject = t.mock.method(propagation, 'inject');
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                { ignoreMethods: ['describe', /^health/] },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const parent = makeSpan(t);
+            const req = { ...makeRequest(), method: 'healthCheck' };
+
+            await context.with(trace.setSpan(context.active(), parent), () =>
+                rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req),
+            );
+
+            assert.equal(startSpan.mock.callCount(), 0);
+            assert.equal(getRequestSpan(req), undefined);
+            assert.equal(
+                trace.getSpan(inject.mock.calls[0].arguments[0] as any),
+                parent,
+            );
+            assert.equal(
+                inject.mock.calls[0].arguments[1],
+                req.metadata.clientSpan,
+            );
+        });
+
+        it('runs an ignored handler untraced under the propagated parent', async (t: TestContext) => {
+            const startSpan = t.mock.fn(() => makeSpan(t));
+            const parent = makeSpan(t);
+
+            t.mock.method(propagation, 'extract', (ctx: any) =>
+                trace.setSpan(ctx, parent),
+            );
+
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                { ignoreServices: 'service-name' },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            let activeInsideHandler: unknown;
+
+            const result = await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => {
+                    activeInsideHandler = trace.getSpan(context.active());
+
+                    return 'result';
+                },
+            );
+
+            assert.equal(result, 'result');
+            assert.equal(startSpan.mock.callCount(), 0);
+            assert.equal(activeInsideHandler, parent);
+        });
+
+        it('asks a predicate rule about the whole call', async (t: TestContext) => {
+            const startSpan = t.mock.fn(() => makeSpan(t));
+            const rule = t.mock.fn(() => false);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                { ignoreServices: [/^other-/, rule] },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+
+            assert.deepEqual(rule.mock.calls[0].arguments, [
+                'service-name',
+                'test-method',
+                req,
+            ]);
+            assert.equal(startSpan.mock.callCount(), 1);
+        });
+
+        it('traces the call when a predicate rule throws', async (t: TestContext) => {
+            const startSpan = t.mock.fn(() => makeSpan(t));
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                {
+                    ignoreMethods: () => {
+                        throw new Error('bad rule');
+                    },
+                },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                client,
+                makeRequest(),
+            );
+
+            assert.equal(startSpan.mock.callCount(), 1);
+        });
+    });
+
+    describe('carrierKey/fallbackCarrierKeys/propagator', () => {
+        function makePropagator(t: TestContext) {
+            return {
+                inject: t.mock.fn((_ctx: any, carrier: any) => {
+                    carrier['x-b3-traceid'] = 'trace-id';
+                }),
+                extract: t.mock.fn((ctx: any, _carrier: any) => ctx),
+                fields: () => ['x-b3-traceid'],
+            };
+        }
+
+        it('injects under the configured key with the given propagator', async (t: TestContext) => {
+            const propagator = makePropagator(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => makeSpan(t) },
+                { carrierKey: 'traceContext', propagator },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+
+            assert.deepEqual(req.metadata.traceContext, {
+                'x-b3-traceid': 'trace-id',
+            });
+            assert.equal(req.metadata.clientSpan, undefined);
+            assert.equal(propagator.inject.mock.callCount(), 1);
+        });
+
+        it('extracts from the first carrier key present', async (t: TestContext) => {
+            const propagator = makePropagator(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => makeSpan(t) },
+                {
+                    carrierKey: 'traceContext',
+                    fallbackCarrierKeys: ['legacySpan', 'clientSpan'],
+                    propagator,
+                },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const legacySpan = { traceparent: 'legacy' };
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest({
+                    legacySpan,
+                    clientSpan: { traceparent: 'older' },
+                }),
+                {},
+                async () => null,
+            );
+
+            assert.equal(
+                propagator.extract.mock.calls[0].arguments[1],
+                legacySpan,
+            );
+        });
+
+        it('extracts from an empty carrier when no key is present', async (t: TestContext) => {
+            const propagator = makePropagator(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => makeSpan(t) },
+                { propagator },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest({ unrelated: true }),
+                {},
+                async () => null,
+            );
+
+            assert.deepEqual(propagator.extract.mock.calls[0].arguments[1], {});
+        });
+    });
+
+    describe('baggage', () => {
+        const withBaggage = <T>(fn: () => T): T =>
+            context.with(
+                propagation.setBaggage(
+                    context.active(),
+                    propagation.createBaggage({
+                        'tenant.id': { value: 'acme' },
+                    }),
+                ),
+                fn,
+            );
+
+        it('injects the active baggage alongside the trace context', async (t: TestContext) => {
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await withBaggage(() =>
+                rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req),
+            );
+
+            assert.equal(req.metadata.clientSpan.baggage, 'tenant.id=acme');
+        });
+
+        it('leaves baggage out when propagateBaggage is off', async (t: TestContext) => {
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => makeSpan(t) },
+                { propagateBaggage: false },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await withBaggage(() =>
+                rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req),
+            );
+
+            assert.equal(req.metadata.clientSpan.baggage, undefined);
+        });
+
+        it('runs the handler with the baggage and promotes chosen entries', async (t: TestContext) => {
+            const startSpan = t.mock.fn((..._args: any[]) => makeSpan(t));
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan },
+                { baggageAttributes: ['tenant.id', 'missing'] },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            let userInsideHandler: string | undefined;
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest({
+                    clientSpan: { baggage: 'tenant.id=acme,user.id=42' },
+                }),
+                {},
+                async () => {
+                    userInsideHandler = propagation
+                        .getBaggage(context.active())
+                        ?.getEntry('user.id')?.value;
+                },
+            );
+
+            const attributes = startSpan.mock.calls[0].arguments[1].attributes;
+
+            assert.equal(userInsideHandler, '42');
+            assert.equal(attributes['tenant.id'], 'acme');
+            assert.equal('user.id' in attributes, false);
+            assert.equal('missing' in attributes, false);
+        });
+    });
+
+    describe('clientSpanTimeout/in-flight calls', () => {
+        const sleep = (ms: number) =>
+            new Promise(resolve => setTimeout(resolve, ms));
+
+        it('ends a client span that gets no response in time', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { clientSpanTimeout: 5 },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await sleep(30);
+
+            assert.equal(span.end.mock.callCount(), 1);
+            assert.deepEqual(span.setAttribute.mock.calls.at(-1).arguments, [
+                AttributeNames.IMQ_TIMEOUT,
+                true,
+            ]);
+            assert.equal(
+                span.addEvent.mock.calls[0].arguments[0],
+                'imq.timeout',
+            );
+            assert.equal(span.setStatus.mock.callCount(), 1);
+            assert.deepEqual(instrumentation.inFlightCalls(), []);
+
+            // the late response must not end the span a second time
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                {},
+            );
+
+            assert.equal(span.end.mock.callCount(), 1);
+        });
+
+        it('leaves a call answered in time alone', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { clientSpanTimeout: 5 },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                {},
+            );
+            await sleep(30);
+
+            assert.equal(span.end.mock.callCount(), 1);
+            assert.equal(span.setStatus.mock.callCount(), 0);
+        });
+
+        it('lists calls in flight and ends them on flush', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+
+            const [call] = instrumentation.inFlightCalls();
+
+            assert.equal(call.span, span);
+            assert.equal(call.serviceName, 'service-name');
+            assert.equal(call.method, 'test-method');
+            assert.ok(call.age >= 0);
+
+            assert.equal(instrumentation.endInFlightCalls(), 1);
+            assert.equal(
+                span.addEvent.mock.calls[0].arguments[0],
+                'imq.flushed',
+            );
+            assert.equal(span.end.mock.callCount(), 1);
+            assert.deepEqual(instrumentation.inFlightCalls(), []);
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                {},
+            );
+
+            assert.equal(span.end.mock.callCount(), 1);
+        });
+
+        it('ends the oldest calls past maxInFlightCalls', async (t: TestContext) => {
+            const spans = [makeSpan(t), makeSpan(t), makeSpan(t)];
+            let started = 0;
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => spans[started++] },
+                { maxInFlightCalls: 2 },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const requests = [makeRequest(), makeRequest(), makeRequest()];
+
+            for (const req of requests) {
+                await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(
+                    client,
+                    req,
+                );
+            }
+
+            assert.deepEqual(
+                instrumentation.inFlightCalls().map((call: any) => call.span),
+                spans.slice(1),
+            );
+            assert.equal(
+                spans[0].addEvent.mock.calls[0].arguments[0],
+                'imq.evicted',
+            );
+            assert.equal(spans[0].end.mock.callCount(), 1);
+
+            // the late response must not end the span a second time
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                requests[0],
+                {},
+            );
+
+            assert.equal(spans[0].end.mock.callCount(), 1);
+        });
+    });
+
+    describe('error recording', () => {
+        it('records client response errors with type, message and stack', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                error: { message: 'boom', stack: 'Error: boom\n    at x' },
+            });
+
+            assert.deepEqual(span.setAttributes.mock.calls[0].arguments, [
+                {
+                    [AttributeNames.ERROR_TYPE]: '_OTHER',
+                    [AttributeNames.ERROR_MESSAGE]: 'boom',
+                },
+            ]);
+            assert.deepEqual(span.recordException.mock.calls[0].arguments, [
+                {
+                    name: '_OTHER',
+                    message: 'boom',
+                    stack: 'Error: boom\n    at x',
+                },
+            ]);
+            assert.deepEqual(span.setStatus.mock.calls[0].arguments, [
+                { code: SpanStatusCode.ERROR, message: 'boom' },
+            ]);
+        });
+
+        it('records the code and stack of an IMQ error response', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                {
+                    errorAttributes: code => ({
+                        'imq.error.category': code?.startsWith('VALIDATION')
+                            ? 'validation'
+                            : 'infrastructure',
+                    }),
+                },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+            const stack = 'Error: bad email\n' + '    at frame\n'.repeat(500);
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                error: {
+                    code: 'VALIDATION_FAILED',
+                    message: 'bad email',
+                    stack,
+                },
+            });
+
+            const [recorded] = span.setAttributes.mock.calls[0].arguments;
+            const [imq] = span.setAttributes.mock.calls[1].arguments;
+
+            assert.equal(
+                recorded[AttributeNames.ERROR_TYPE],
+                'VALIDATION_FAILED',
+            );
+            assert.equal(
+                imq[AttributeNames.IMQ_ERROR_CODE],
+                'VALIDATION_FAILED',
+            );
+            assert.ok(
+                imq[AttributeNames.IMQ_ERROR_STACK].startsWith(
+                    'Error: bad email',
+                ),
+            );
+            assert.ok(
+                imq[AttributeNames.IMQ_ERROR_STACK].length < stack.length,
+            );
+            assert.equal(imq['imq.error.category'], 'validation');
+            assert.equal(span.recordException.mock.callCount(), 1);
+        });
+
+        it('skips an errorAttributes mapper that throws', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                {
+                    errorAttributes: () => {
+                        throw new Error('bad mapper');
+                    },
+                },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            t.mock.method(diag, 'error', () => undefined);
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                error: { code: 'IMQ_RPC_CALL_ERROR', message: 'boom' },
+            });
+
+            assert.deepEqual(span.setAttributes.mock.calls[1].arguments, [
+                { [AttributeNames.IMQ_ERROR_CODE]: 'IMQ_RPC_CALL_ERROR' },
+            ]);
+            assert.equal(span.end.mock.callCount(), 1);
+        });
+
+        it('fails the server span for an error returned in the response', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const res: any = {};
+
+            const result = await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                res,
+                async () => {
+                    res.error = {
+                        code: 'IMQ_RPC_CALL_ERROR',
+                        message: 'handler failed',
+                    };
+                },
+            );
+
+            assert.equal(result, undefined);
+            assert.deepEqual(span.setStatus.mock.calls[0].arguments, [
+                { code: SpanStatusCode.ERROR, message: 'handler failed' },
+            ]);
+            assert.equal(span.recordException.mock.callCount(), 1);
+            assert.deepEqual(span.setAttributes.mock.calls[1].arguments, [
+                { [AttributeNames.IMQ_ERROR_CODE]: 'IMQ_RPC_CALL_ERROR' },
+            ]);
+            assert.ok(
+                records.some(
+                    record => record.name === MetricNames.RPC_SERVER_ERRORS,
+                ),
+            );
+        });
+
+        it('leaves a successful response alone', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                { data: 'ok' },
+                async () => 'ok',
+            );
+
+            assert.equal(span.setStatus.mock.callCount(), 0);
+            assert.equal(span.recordException.mock.callCount(), 0);
+        });
+
+        it('follows the cause chain into the exception stack', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const cause = new RangeError('pool exhausted');
+            const boom = new Error('handler failed', { cause });
+
+            await assert.rejects(
+                rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                    service,
+                    makeRequest(),
+                    {},
+                    async () => {
+                        throw boom;
+                    },
+                ),
+                boom,
+            );
+
+            const [exception] = span.recordException.mock.calls[0].arguments;
+
+            assert.equal(exception.name, 'Error');
+            assert.equal(
+                exception.stack,
+                `${boom.stack}\nCaused by: ${cause.stack}`,
+            );
+        });
+
+        it('leaves expected errors out of the span status and error metrics', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                {
+                    isExpectedError: error =>
+                        (error as any).code === 'NOT_FOUND',
+                },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                error: { code: 'NOT_FOUND', message: 'no such user' },
+            });
+            await assert.rejects(
+                rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                    service,
+                    makeRequest(),
+                    {},
+                    async () => {
+                        throw Object.assign(new Error('no such user'), {
+                            code: 'NOT_FOUND',
+                        });
+                    },
+                ),
+                /no such user/,
+            );
+
+            assert.equal(span.recordException.mock.callCount(), 2);
+            assert.equal(span.setStatus.mock.callCount(), 0);
+            assert.ok(
+                records.every(
+                    record =>
+                        !record.name.endsWith('.errors') &&
+                        record.attributes['imq.outcome'] === 'ok',
+                ),
+            );
+        });
+    });
+
+    describe('queue wait', () => {
+        it('stamps the send time into the request metadata', async (t: TestContext) => {
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => makeSpan(t),
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+            const before = Date.now();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+
+            assert.ok(req.metadata.imqSentAt >= before);
+            assert.ok(req.metadata.imqSentAt <= Date.now());
+        });
+
+        it('records the wait on the server span and as a metric', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const before = Date.now();
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest({ imqSentAt: before - 250 }),
+                {},
+                async () => 'result',
+            );
+
+            const [name, wait] = span.setAttribute.mock.calls.find(
+                (call: any) =>
+                    call.arguments[0] === AttributeNames.IMQ_QUEUE_WAIT,
+            ).arguments;
+            const metric = records.find(
+                record => record.name === MetricNames.RPC_SERVER_QUEUE_WAIT,
+            )!;
+
+            assert.equal(name, AttributeNames.IMQ_QUEUE_WAIT);
+            assert.ok(wait >= 250 && wait <= Date.now() - before + 250);
+            assert.equal(metric.value, wait);
+            assert.equal(
+                metric.attributes[SemconvAttributeNames.RPC_METHOD],
+                'test-method',
+            );
+        });
+
+        it('clamps a wait made negative by clock skew to zero', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest({ imqSentAt: Date.now() + 60_000 }),
+                {},
+                async () => 'result',
+            );
+
+            assert.ok(
+                span.setAttribute.mock.calls.some(
+                    (call: any) =>
+                        call.arguments[0] === AttributeNames.IMQ_QUEUE_WAIT &&
+                        call.arguments[1] === 0,
+                ),
+            );
+        });
+
+        it('records nothing for a request without a send time', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => 'result',
+            );
+
+            assert.ok(
+                span.setAttribute.mock.calls.every(
+                    (call: any) =>
+                        call.arguments[0] !== AttributeNames.IMQ_QUEUE_WAIT,
+                ),
+            );
+            assert.ok(
+                records.every(
+                    record => record.name !== MetricNames.RPC_SERVER_QUEUE_WAIT,
+                ),
+            );
+        });
+    });
+
+    describe('payload size', () => {
+        const sizeOf = (span: any, name: string) =>
+            span.setAttribute.mock.calls.find(
+                (call: any) => call.arguments[0] === name,
+            )?.arguments[1];
+
+        it('records request and response sizes on the client span', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { payloadSize: {} },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+            const res = { data: { name: 'Zoë' } };
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+
+            const sent = Buffer.byteLength(JSON.stringify(req));
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(
+                client,
+                req,
+                res,
+            );
+
+            assert.ok(!JSON.stringify(req).includes('"span"'));
+            assert.equal(sizeOf(span, AttributeNames.IMQ_REQUEST_SIZE), sent);
+            assert.equal(
+                sizeOf(span, AttributeNames.IMQ_RESPONSE_SIZE),
+                Buffer.byteLength(JSON.stringify(res)),
+            );
+        });
+
+        it('records the response size on the server span', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { payloadSize: {} },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => [1, 2, 3],
+            );
+
+            assert.equal(
+                sizeOf(span, AttributeNames.IMQ_RESPONSE_SIZE),
+                Buffer.byteLength(JSON.stringify({ data: [1, 2, 3] })),
+            );
+            assert.equal(
+                sizeOf(span, AttributeNames.IMQ_REQUEST_SIZE),
+                undefined,
+            );
+        });
+
+        it('records size histograms only when asked to', async (t: TestContext) => {
+            const records = makeMeter(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => makeSpan(t) },
+                { payloadSize: { attributes: false, metrics: true } },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const req = makeRequest();
+
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.beforeCall.call(client, req);
+            await rpc.DEFAULT_IMQ_CLIENT_OPTIONS.afterCall.call(client, req, {
+                data: 'ok',
+            });
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => 'ok',
+            );
+
+            assert.deepEqual(
+                records
+                    .map(record => record.name)
+                    .filter(name => name.endsWith('.size')),
+                [
+                    MetricNames.RPC_CLIENT_REQUEST_SIZE,
+                    MetricNames.RPC_CLIENT_RESPONSE_SIZE,
+                    MetricNames.RPC_SERVER_RESPONSE_SIZE,
+                ],
+            );
+        });
+
+        it('flags a payload over the threshold with an event', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { payloadSize: { largeThreshold: 64 } },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => 'x'.repeat(100),
+            );
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => 'small',
+            );
+
+            assert.equal(span.addEvent.mock.callCount(), 1);
+
+            const [name, attributes] = span.addEvent.mock.calls[0].arguments;
+
+            assert.equal(name, 'imq.payload.large');
+            assert.equal(attributes['imq.payload'], 'response');
+            assert.ok(attributes['imq.payload.size'] > 100);
+            assert.equal(attributes['imq.payload.threshold'], 64);
+        });
+
+        it('measures nothing unless configured', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(t, {
+                startSpan: () => span,
+            });
+            const rpc = instrumentation.patch(emptyModule());
+            const stringify = t.mock.method(JSON, 'stringify');
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => 'ok',
+            );
+
+            assert.equal(stringify.mock.callCount(), 0);
+            assert.equal(
+                sizeOf(span, AttributeNames.IMQ_RESPONSE_SIZE),
+                undefined,
+            );
+        });
+
+        it('skips measuring when nothing is to be recorded', async (t: TestContext) => {
+            const span = makeSpan(t);
+            const instrumentation = makeInstrumentation(
+                t,
+                { startSpan: () => span },
+                { payloadSize: { attributes: false } },
+            );
+            const rpc = instrumentation.patch(emptyModule());
+            const stringify = t.mock.method(JSON, 'stringify');
+
+            await rpc.DEFAULT_IMQ_SERVICE_OPTIONS.wrapCall.call(
+                service,
+                makeRequest(),
+                {},
+                async () => 'ok',
+            );
+
+            assert.equal(stringify.mock.callCount(), 0);
+            assert.equal(
+                sizeOf(span, AttributeNames.IMQ_RESPONSE_SIZE),
+                undefined,
+            );
+        });
+    });
 });
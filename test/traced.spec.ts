@@ -15,27 +15,42 @@
  * OTHER TORTIOUS ACTION, ARISING OUT OF OR IN CONNECTION WITH THE USE OR
  * PERFORMANCE OF THIS SOFTWARE.
  */
-import { describe, it, type TestContext } from 'node:test';
+import { before, describe, it, type TestContext } from 'node:test';
 import assert from 'node:assert/strict';
 import { readFileSync } from 'node:fs';
-import { trace } from '@opentelemetry/api';
+import { Readable } from 'node:stream';
+import { context, diag, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
 import {
     AttributeNames,
+    serviceMethodSpanName,
     SpanNames,
     TraceKind,
+    openTraces,
+    setTraceTtl,
+    startTrace,
     traced,
+    tracedClass,
     traceEnd,
     traceStart,
+    withTrace,
 } from '../index.js';
 
 const self = JSON.parse(
     readFileSync(new URL('../package.json', import.meta.url), 'utf8'),
 );
 
+// A real context manager so `context.with(...)` actually propagates — required
+// to prove a traced method runs inside its span's context.
+before(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager());
+});
+
 function makeSpan(t: TestContext): any {
     return {
         end: t.mock.fn(),
         setAttribute: t.mock.fn(),
+        setAttributes: t.mock.fn(),
         setStatus: t.mock.fn(),
         recordException: t.mock.fn(),
     };
@@ -43,11 +58,11 @@ function makeSpan(t: TestContext): any {
 
 // Records every startSpan(name, options) so the attributes can be asserted.
 function makeTracer(t: TestContext, span: any) {
-    const calls: { name: string; options?: any }[] = [];
+    const calls: { name: string; options?: any; context?: any }[] = [];
 
     t.mock.method(trace, 'getTracer', () => ({
-        startSpan(name: string, options?: any) {
-            calls.push({ name, options });
+        startSpan(name: string, options?: any, ctx?: any) {
+            calls.push({ name, options, context: ctx });
 
             return span;
         },
@@ -56,8 +71,9 @@ function makeTracer(t: TestContext, span: any) {
     return calls;
 }
 
-// `traced()` targets legacy decorators, which this tsconfig does not enable —
-// apply the returned decorator by hand instead of using decorator syntax.
+// This tsconfig compiles decorator syntax as standard (TC39) decorators, so the
+// legacy `(target, methodName, descriptor)` form is exercised by applying the
+// returned decorator by hand.
 function decorate(
     t: TestContext,
     span: any,
@@ -133,6 +149,278 @@ describe('traceStart()/traceEnd()', () => {
 
         assert.doesNotThrow(() => traceEnd('never-started'));
     });
+
+    it('starts the span under the given parent and start time', (t: TestContext) => {
+        const parent = makeSpan(t);
+        const calls = makeTracer(t, makeSpan(t));
+        const parentContext = trace.setSpan(context.active(), parent);
+
+        traceStart('timed', undefined, undefined, {
+            parent: parentContext,
+            startTime: 1000,
+        });
+        traceEnd('timed');
+
+        assert.deepEqual(calls[0].options, { startTime: 1000 });
+        assert.equal(calls[0].context, parentContext);
+    });
+
+    it('ends the span with final attributes and an end time', (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+
+        traceStart('counted');
+        traceEnd('counted', { attributes: { rows: 12 }, endTime: 2000 });
+
+        assert.deepEqual(span.setAttributes.mock.calls[0].arguments, [
+            { rows: 12 },
+        ]);
+        assert.deepEqual(span.end.mock.calls[0].arguments, [2000]);
+        assert.equal(span.setStatus.mock.callCount(), 0);
+    });
+
+    it('records an error the way traced methods do', (t: TestContext) => {
+        const span = makeSpan(t);
+        const error = new Error('import failed');
+
+        makeTracer(t, span);
+
+        traceStart('failing');
+        traceEnd('failing', { error });
+
+        assert.deepEqual(span.recordException.mock.calls[0].arguments, [
+            { name: 'Error', message: 'import failed', stack: error.stack },
+        ]);
+        assert.deepEqual(span.setStatus.mock.calls[0].arguments, [
+            { code: SpanStatusCode.ERROR, message: 'import failed' },
+        ]);
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+
+    it('lets an explicit status override the error one', (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+
+        traceStart('retried');
+        traceEnd('retried', {
+            error: new Error('first attempt failed'),
+            status: { code: SpanStatusCode.OK },
+        });
+
+        assert.deepEqual(span.setStatus.mock.calls.at(-1)?.arguments, [
+            { code: SpanStatusCode.OK },
+        ]);
+    });
+});
+
+describe('startTrace()', () => {
+    it('allows concurrent spans under one name', (t: TestContext) => {
+        const first = makeSpan(t);
+        const second = makeSpan(t);
+        const spans = [first, second];
+
+        t.mock.method(trace, 'getTracer', () => ({
+            startSpan: () => spans.shift(),
+        }));
+
+        const a = startTrace('import-batch');
+        const b = startTrace('import-batch');
+
+        b.end();
+        a.end();
+
+        assert.equal(a.span, first);
+        assert.equal(b.span, second);
+        assert.equal(first.end.mock.callCount(), 1);
+        assert.equal(second.end.mock.callCount(), 1);
+    });
+
+    it('parents the span on the active one and runs code under it', (t: TestContext) => {
+        const span = makeSpan(t);
+        const parent = makeSpan(t);
+        const calls = makeTracer(t, span);
+
+        const handle = context.with(
+            trace.setSpan(context.active(), parent),
+            () => startTrace('import-batch', { attributes: { rows: 3 } }),
+        );
+
+        assert.equal(trace.getSpan(calls[0].context), parent);
+        assert.deepEqual(calls[0].options, { attributes: { rows: 3 } });
+        assert.equal(trace.getSpan(handle.context), span);
+        assert.equal(
+            handle.run(() => trace.getSpan(context.active())),
+            span,
+        );
+
+        handle.end();
+    });
+
+    it('ends the span only once', (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+
+        const handle = startTrace('import-batch');
+
+        handle.end();
+        handle.end();
+
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+
+    it('takes the same end options as traceEnd()', (t: TestContext) => {
+        const span = makeSpan(t);
+        const error = new Error('import failed');
+
+        makeTracer(t, span);
+
+        startTrace('import-batch', { startTime: 1000 }).end({
+            error,
+            endTime: 2000,
+        });
+
+        assert.deepEqual(span.recordException.mock.calls[0].arguments, [
+            { name: 'Error', message: 'import failed', stack: error.stack },
+        ]);
+        assert.deepEqual(span.end.mock.calls[0].arguments, [2000]);
+    });
+});
+
+describe('openTraces()', () => {
+    const sleep = (ms: number) =>
+        new Promise(resolve => setTimeout(resolve, ms));
+
+    it('lists manual spans until they end', (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+        traceStart('by-name');
+
+        const handle = startTrace('by-handle');
+        const listed = openTraces();
+
+        assert.deepEqual(
+            listed.map(({ name, span }) => ({ name, span })),
+            [
+                { name: 'by-name', span },
+                { name: 'by-handle', span },
+            ],
+        );
+        assert.ok(listed.every(({ age }) => age >= 0));
+
+        traceEnd('by-name');
+        handle.end();
+
+        assert.deepEqual(openTraces(), []);
+    });
+
+    it('ends a span that outlives its ttl as leaked', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const warn = t.mock.method(diag, 'warn', () => undefined);
+
+        makeTracer(t, span);
+        traceStart('forgotten', undefined, undefined, { ttl: 10 });
+        await sleep(30);
+
+        assert.deepEqual(span.setAttribute.mock.calls[0].arguments, [
+            AttributeNames.LEAKED,
+            true,
+        ]);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(warn.mock.callCount(), 1);
+        assert.match(String(warn.mock.calls[0].arguments[0]), /forgotten/);
+        assert.deepEqual(openTraces(), []);
+
+        // The name is free again, and the late end does nothing.
+        traceEnd('forgotten');
+        assert.doesNotThrow(() => traceStart('forgotten'));
+        traceEnd('forgotten');
+        assert.equal(span.end.mock.callCount(), 2);
+    });
+
+    it('applies the default ttl to handles too', async (t: TestContext) => {
+        const span = makeSpan(t);
+
+        t.mock.method(diag, 'warn', () => undefined);
+        makeTracer(t, span);
+        setTraceTtl(10);
+        t.after(() => setTraceTtl(undefined));
+
+        const handle = startTrace('forgotten');
+
+        await sleep(30);
+        handle.end();
+
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.deepEqual(openTraces(), []);
+    });
+
+    it('leaves a span ended in time alone', async (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+        startTrace('prompt', { ttl: 10 }).end();
+        await sleep(30);
+
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(span.setAttribute.mock.callCount(), 0);
+    });
+});
+
+describe('withTrace()', () => {
+    it('runs the function inside the span and ends it', (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+
+        const result = withTrace('load', given => [
+            given,
+            trace.getSpan(context.active()),
+        ]);
+
+        assert.deepEqual(result, [span, span]);
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+
+    it('ends the span when the returned promise settles', async (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+
+        const pending = withTrace('load', async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+
+            return trace.getSpan(context.active());
+        });
+
+        assert.equal(span.end.mock.callCount(), 0);
+        assert.equal(await pending, span);
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+
+    it('fails the span and rethrows', async (t: TestContext) => {
+        const span = makeSpan(t);
+
+        makeTracer(t, span);
+
+        assert.throws(
+            () =>
+                withTrace('load', () => {
+                    throw new Error('sync boom');
+                }),
+            /sync boom/,
+        );
+        await assert.rejects(
+            () => withTrace('load', () => Promise.reject(new Error('boom'))),
+            /boom/,
+        );
+        assert.equal(span.end.mock.callCount(), 2);
+        assert.equal(span.setStatus.mock.callCount(), 2);
+        assert.deepEqual(openTraces(), []);
+    });
 });
 
 describe('traced()', () => {
@@ -175,6 +463,17 @@ describe('traced()', () => {
         );
     });
 
+    it('names the span through the configured formatter', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { calls, call } = decorate(t, span, () => null, {
+            spanNameFormatter: serviceMethodSpanName,
+        });
+
+        call();
+
+        assert.equal(calls[0].name, 'Reports/rebuild');
+    });
+
     it('lets caller tags override the automatic attributes', (t: TestContext) => {
         const span = makeSpan(t);
         const { calls, call } = decorate(t, span, () => null, {
@@ -223,6 +522,38 @@ describe('traced()', () => {
         assert.equal(span.setStatus.mock.callCount(), 1);
     });
 
+    it('runs the method inside the span context', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () =>
+            trace.getSpan(context.active()),
+        );
+
+        assert.equal(call(), span);
+        assert.equal(trace.getSpan(context.active()), undefined);
+    });
+
+    it('keeps the span context across awaits in the method', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+
+            return trace.getSpan(context.active());
+        });
+
+        assert.equal(await call(), span);
+    });
+
+    it('parents the span on the active context', (t: TestContext) => {
+        const span = makeSpan(t);
+        const parent = makeSpan(t);
+        const { calls, call } = decorate(t, span, () => null);
+
+        context.with(trace.setSpan(context.active(), parent), () => call());
+
+        assert.equal(calls.length, 1);
+        assert.equal(trace.getSpan(calls[0].context), parent);
+    });
+
     it('fails the span and rethrows a synchronous error', (t: TestContext) => {
         const span = makeSpan(t);
         const { call } = decorate(t, span, () => {
@@ -233,3 +564,486 @@ describe('traced()', () => {
         assert.equal(span.end.mock.callCount(), 1);
     });
 });
+
+describe('traced() error recording', () => {
+    it('records a non-Error throw readably', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => {
+            throw { reason: 'quota' };
+        });
+
+        assert.throws(() => call());
+        assert.deepEqual(span.setAttributes.mock.calls[0].arguments, [
+            {
+                [AttributeNames.ERROR_TYPE]: '_OTHER',
+                [AttributeNames.ERROR_MESSAGE]: '{"reason":"quota"}',
+            },
+        ]);
+    });
+
+    it('records the error type and an exception event', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const boom = new TypeError('bad input');
+        const { call } = decorate(t, span, () => Promise.reject(boom));
+
+        await assert.rejects(() => call(), boom);
+        assert.equal(
+            span.setAttributes.mock.calls[0].arguments[0][
+                AttributeNames.ERROR_TYPE
+            ],
+            'TypeError',
+        );
+        assert.deepEqual(span.recordException.mock.calls[0].arguments, [
+            { name: 'TypeError', message: 'bad input', stack: boom.stack },
+        ]);
+    });
+
+    it('does not fail the span for an expected error', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(
+            t,
+            span,
+            () => {
+                throw new RangeError('not found');
+            },
+            { isExpectedError: error => error instanceof RangeError },
+        );
+
+        assert.throws(() => call(), /not found/);
+        assert.equal(span.recordException.mock.callCount(), 1);
+        assert.equal(span.setStatus.mock.callCount(), 0);
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+});
+
+describe('traced() attribute extractors', () => {
+    it('records attributes derived from the arguments', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => undefined, {
+            argsToAttributes: ([orderId, urgent]) => ({
+                'order.id': orderId,
+                'order.urgent': urgent,
+            }),
+        });
+
+        call(42, true);
+
+        assert.deepEqual(span.setAttributes.mock.calls[0].arguments, [
+            { 'order.id': 42, 'order.urgent': true },
+        ]);
+    });
+
+    it('records attributes derived from a resolved result', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, async () => ['a', 'b', 'c'], {
+            resultToAttributes: rows => ({ 'rows.count': rows.length }),
+        });
+
+        await call();
+
+        assert.deepEqual(span.setAttributes.mock.calls[0].arguments, [
+            { 'rows.count': 3 },
+        ]);
+    });
+
+    it('records attributes derived from a synchronous result', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => ['a'], {
+            resultToAttributes: rows => ({ 'rows.ids': rows }),
+        });
+
+        call();
+
+        assert.deepEqual(span.setAttributes.mock.calls[0].arguments, [
+            { 'rows.ids': ['a'] },
+        ]);
+    });
+
+    it('skips the result extractor when the method fails', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const resultToAttributes = t.mock.fn(() => ({}));
+        const { call } = decorate(
+            t,
+            span,
+            () => Promise.reject(new Error('boom')),
+            { resultToAttributes },
+        );
+
+        await assert.rejects(() => call(), /boom/);
+        assert.equal(resultToAttributes.mock.callCount(), 0);
+    });
+
+    it('never lets a failing extractor fail the method', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => 'done', {
+            argsToAttributes: () => {
+                throw new Error('bad extractor');
+            },
+            resultToAttributes: () => {
+                throw new Error('bad extractor');
+            },
+        });
+
+        t.mock.method(diag, 'error', () => undefined);
+
+        assert.equal(call(), 'done');
+        assert.equal(span.setAttributes.mock.callCount(), 0);
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+});
+
+describe('traced() results consumed later', () => {
+    const itemCount = (span: any) =>
+        span.setAttribute.mock.calls.find(
+            (call: any) => call.arguments[0] === AttributeNames.ITEM_COUNT,
+        )?.arguments[1];
+
+    it('ends the span once an async generator is exhausted', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, async function* () {
+            yield trace.getSpan(context.active());
+            yield 2;
+            yield 3;
+        });
+
+        const iterator = call();
+
+        assert.equal(span.end.mock.callCount(), 0);
+
+        const items = [];
+
+        for await (const item of iterator) {
+            items.push(item);
+        }
+
+        assert.deepEqual(items, [span, 2, 3]);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(itemCount(span), 3);
+    });
+
+    it('ends the span when a generator is abandoned early', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, function* () {
+            yield 1;
+            yield 2;
+            yield 3;
+        });
+
+        for (const item of call()) {
+            if (item === 2) {
+                break;
+            }
+        }
+
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(span.setStatus.mock.callCount(), 0);
+        assert.equal(itemCount(span), 2);
+    });
+
+    it('fails the span when iteration throws', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, async function* () {
+            yield 1;
+            throw new Error('iteration boom');
+        });
+
+        await assert.rejects(async () => {
+            for await (const _ of call()) {
+                // drain
+            }
+        }, /iteration boom/);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(span.setStatus.mock.callCount(), 1);
+        assert.equal(itemCount(span), 1);
+    });
+
+    it('ends the span when a stream ends', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, async () =>
+            Readable.from(['a', 'b']),
+        );
+
+        const stream = await call();
+
+        assert.equal(span.end.mock.callCount(), 0);
+
+        const chunks = [];
+
+        for await (const chunk of stream) {
+            chunks.push(chunk);
+        }
+
+        assert.deepEqual(chunks, ['a', 'b']);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(itemCount(span), 2);
+    });
+
+    it('ends the span without failing it when a stream is destroyed', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => new Readable({ read() {} }));
+
+        const stream = call();
+
+        stream.destroy();
+        await new Promise(resolve => stream.once('close', resolve));
+
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(span.setStatus.mock.callCount(), 0);
+    });
+
+    it('fails the span on a stream error, leaving the error to the caller', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => new Readable({ read() {} }));
+
+        const stream = call();
+        const failed = new Promise(resolve => stream.once('error', resolve));
+
+        stream.destroy(new Error('stream boom'));
+
+        assert.match(((await failed) as Error).message, /stream boom/);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(span.setStatus.mock.callCount(), 1);
+    });
+
+    it('keeps methods of an iterable with private fields working', async (t: TestContext) => {
+        class Cursor {
+            #rows = ['a', 'b'];
+
+            public size(): number {
+                return this.#rows.length;
+            }
+
+            public async *[Symbol.asyncIterator]() {
+                yield* this.#rows;
+            }
+        }
+
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => new Cursor());
+
+        const cursor = call();
+        const rows = [];
+
+        assert.equal(cursor.size(), 2);
+
+        for await (const row of cursor) {
+            rows.push(row);
+        }
+
+        assert.deepEqual(rows, ['a', 'b']);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(itemCount(span), 2);
+    });
+
+    it('ends the span on return for a plain iterable', (t: TestContext) => {
+        const span = makeSpan(t);
+        const { call } = decorate(t, span, () => [1, 2, 3]);
+
+        assert.deepEqual(call(), [1, 2, 3]);
+        assert.equal(span.end.mock.callCount(), 1);
+        assert.equal(itemCount(span), undefined);
+    });
+});
+
+describe('traced() as a standard decorator', () => {
+    it('traces a method decorated with decorator syntax', (t: TestContext) => {
+        const span = makeSpan(t);
+        const calls = makeTracer(t, span);
+
+        class Reports {
+            @traced()
+            public rebuild(day: string): string {
+                return `rebuilt ${day}`;
+            }
+        }
+
+        assert.equal(new Reports().rebuild('monday'), 'rebuilt monday');
+        assert.equal(calls.length, 1);
+        assert.equal(calls[0].name, SpanNames.METHOD_CALL);
+        assert.equal(
+            calls[0].options.attributes[AttributeNames.RESOURCE_NAME],
+            'Reports.rebuild',
+        );
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+
+    it('applies the options and fails the span on rejection', async (t: TestContext) => {
+        const span = makeSpan(t);
+        const calls = makeTracer(t, span);
+
+        class Invoices {
+            @traced({
+                kind: TraceKind.CLIENT,
+                tags: { 'peer.service': 'billing' },
+            })
+            public async fetch(): Promise<never> {
+                throw new Error('billing down');
+            }
+        }
+
+        await assert.rejects(() => new Invoices().fetch(), /billing down/);
+        assert.equal(
+            calls[0].options.attributes[AttributeNames.SPAN_KIND],
+            TraceKind.CLIENT,
+        );
+        assert.equal(calls[0].options.attributes['peer.service'], 'billing');
+        assert.equal(span.setStatus.mock.callCount(), 1);
+        assert.equal(span.end.mock.callCount(), 1);
+    });
+
+    it('refuses anything but a method', (t: TestContext) => {
+        makeTracer(t, makeSpan(t));
+
+        assert.throws(
+            () =>
+                (traced() as any)(() => undefined, {
+                    kind: 'getter',
+                    name: 'total',
+                }),
+            TypeError,
+        );
+    });
+});
+
+describe('tracedClass()', () => {
+    const resources = (calls: { options?: any }[]) =>
+        calls.map(
+            call => call.options.attributes[AttributeNames.RESOURCE_NAME],
+        );
+
+    it('traces own methods, leaving accessors and statics alone', (t: TestContext) => {
+        const calls = makeTracer(t, makeSpan(t));
+
+        @tracedClass()
+        class Reports {
+            public get total(): number {
+                return 1;
+            }
+
+            public static create(): Reports {
+                return new Reports();
+            }
+
+            public rebuild(): string {
+                return 'rebuilt';
+            }
+
+            public purge(): void {}
+        }
+
+        const reports = Reports.create();
+
+        assert.equal(reports.total, 1);
+        assert.equal(reports.rebuild(), 'rebuilt');
+        reports.purge();
+
+        assert.deepEqual(resources(calls), [
+            'Reports.rebuild',
+            'Reports.purge',
+        ]);
+    });
+
+    it('traces statics when asked to', (t: TestContext) => {
+        const calls = makeTracer(t, makeSpan(t));
+
+        @tracedClass({ statics: true })
+        class Reports {
+            public static create(): Reports {
+                return new Reports();
+            }
+        }
+
+        Reports.create();
+
+        assert.deepEqual(resources(calls), ['Reports.create']);
+    });
+
+    it('honours include/exclude lists, symbols included', (t: TestContext) => {
+        const calls = makeTracer(t, makeSpan(t));
+        const secret = Symbol('secret');
+        const visible = Symbol('visible');
+
+        @tracedClass({ include: [/^r/, visible], exclude: ['remove'] })
+        class Reports {
+            public rebuild(): void {}
+
+            public remove(): void {}
+
+            public purge(): void {}
+
+            public [secret](): void {}
+
+            public [visible](): void {}
+        }
+
+        const reports = new Reports();
+
+        reports.rebuild();
+        reports.remove();
+        reports.purge();
+        reports[secret]();
+        reports[visible]();
+
+        assert.deepEqual(resources(calls), [
+            'Reports.rebuild',
+            'Reports.Symbol(visible)',
+        ]);
+    });
+
+    it('merges per-method options over the class-wide ones', (t: TestContext) => {
+        const calls = makeTracer(t, makeSpan(t));
+
+        @tracedClass({
+            tags: { team: 'billing' },
+            methods: { fetch: { kind: TraceKind.CLIENT } },
+        })
+        class Invoices {
+            public fetch(): void {}
+
+            public store(): void {}
+        }
+
+        new Invoices().fetch();
+        new Invoices().store();
+
+        const [fetch, store] = calls.map(call => call.options.attributes);
+
+        assert.equal(fetch[AttributeNames.SPAN_KIND], TraceKind.CLIENT);
+        assert.equal(fetch.team, 'billing');
+        assert.equal(store[AttributeNames.SPAN_KIND], TraceKind.SERVER);
+    });
+
+    it('reports the declaring class for inherited methods', (t: TestContext) => {
+        const calls = makeTracer(t, makeSpan(t));
+
+        @tracedClass()
+        class Base {
+            public inherited(): void {}
+        }
+
+        @tracedClass()
+        class Derived extends Base {
+            public own(): void {}
+        }
+
+        new Derived().inherited();
+        new Derived().own();
+
+        assert.deepEqual(resources(calls), ['Base.inherited', 'Derived.own']);
+    });
+
+    it('does not trace a @traced method twice', (t: TestContext) => {
+        const calls = makeTracer(t, makeSpan(t));
+
+        @tracedClass({ tags: { from: 'class' } })
+        class Reports {
+            @traced({ tags: { from: 'method' } })
+            public rebuild(): void {}
+        }
+
+        new Reports().rebuild();
+
+        assert.equal(calls.length, 1);
+        assert.equal(calls[0].options.attributes.from, 'method');
+    });
+});